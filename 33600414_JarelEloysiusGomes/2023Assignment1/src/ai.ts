@@ -0,0 +1,261 @@
+/** The AI player: finds every placement it can reach, scores the boards they leave, and plays the best one */
+
+import { Command } from "./controls";
+import { clearLines, landingPosition, piecesOf, State, step } from "./engine";
+import { PieceSet } from "./pieceSets";
+import { tetriminoCells } from "./pieces";
+import { Grid, Tetrimino } from "./types";
+
+/**
+ * How much each feature of a board counts when scoring it. Features that make a board worse have negative weights.
+ *
+ * @param height - The weight of the column heights added together.
+ * @param holes - The weight of the empty cells with a filled cell somewhere above them.
+ * @param bumpiness - The weight of the height differences between neighbouring columns.
+ * @param lines - The weight of the lines the placement clears.
+ * @param wells - The weight of the depths of columns lower than both their neighbours.
+ */
+export type Weights = {
+  height: number,
+  holes: number,
+  bumpiness: number,
+  lines: number,
+  wells: number,
+};
+
+/**
+ * The name of an AI difficulty.
+ */
+export type BotLevelName = "easy" | "normal" | "hard";
+
+/**
+ * An AI difficulty: how well it judges boards and how fast it plays.
+ *
+ * @param label - What menus call the difficulty.
+ * @param weights - The weights it scores boards with.
+ * @param thinkTime - The milliseconds it waits before it starts moving each piece.
+ * @param moveDelay - The milliseconds between its commands.
+ */
+export type BotLevel = {
+  label: string,
+  weights: Weights,
+  thinkTime: number,
+  moveDelay: number,
+};
+
+/**
+ * Every AI difficulty. The hard weights are a well-known tuned set; the easier ones care less about holes.
+ */
+export const BOT_LEVELS: Readonly<Record<BotLevelName, BotLevel>> = {
+  easy: {
+    label: "AI (easy)",
+    weights: { height: -0.3, holes: -0.1, bumpiness: -0.05, lines: 0.3, wells: 0 },
+    thinkTime: 700,
+    moveDelay: 150,
+  },
+  normal: {
+    label: "AI (normal)",
+    weights: { height: -0.45, holes: -0.3, bumpiness: -0.15, lines: 0.6, wells: -0.05 },
+    thinkTime: 350,
+    moveDelay: 70,
+  },
+  hard: {
+    label: "AI (hard)",
+    weights: { height: -0.510066, holes: -0.35663, bumpiness: -0.184483, lines: 0.760666, wells: -0.1 },
+    thinkTime: 100,
+    moveDelay: 20,
+  },
+};
+
+/**
+ * Checks whether a string names an AI difficulty.
+ * @param name - The name to check.
+ * @returns `true` if it is an AI difficulty.
+ */
+export const isBotLevelName = (name: string): name is BotLevelName =>
+  Object.keys(BOT_LEVELS).includes(name);
+
+/**
+ * A place the current piece can end up, and how to get it there.
+ *
+ * @param tetrimino - The piece where it lands.
+ * @param hold - Whether the piece is the one swapped in from the hold.
+ * @param commands - The commands that put it there, ending with a hard drop.
+ * @param score - How good the board it leaves is.
+ */
+export type Placement = {
+  tetrimino: Tetrimino,
+  hold: boolean,
+  commands: readonly Command[],
+  score: number,
+};
+
+/**
+ * Gets the height of each column: the rows from its highest filled cell down to the floor.
+ * @param grid - The board.
+ * @returns The height of each column, left first.
+ */
+const columnHeights = (grid: Grid): number[] =>
+  grid[0].map((_, x) => {
+    const top = grid.findIndex(row => row[x] !== null);
+    return top === -1 ? 0 : grid.length - top;
+  });
+
+/**
+ * Scores a board with a weighted sum of its features. Higher is better.
+ * @param grid - The board after the placement's lines are cleared.
+ * @param linesCleared - How many lines the placement cleared.
+ * @param weights - The weights.
+ * @returns The score.
+ */
+export const evaluateBoard = (grid: Grid, linesCleared: number, weights: Weights): number => {
+  const heights = columnHeights(grid);
+  const height = heights.reduce((total, h) => total + h, 0);
+
+  // Empty cells below the top of their column
+  const holes = heights.reduce((total, h, x) =>
+    total + grid.slice(grid.length - h).filter(row => row[x] === null).length, 0);
+
+  const bumpiness = heights.slice(1).reduce((total, h, x) => total + Math.abs(h - heights[x]), 0);
+
+  // The walls count as taller than any column
+  const wells = heights.reduce((total, h, x) => {
+    const depth = Math.min(heights[x - 1] ?? Infinity, heights[x + 1] ?? Infinity) - h;
+    return total + (depth > 0 ? depth : 0);
+  }, 0);
+
+  return weights.height * height +
+    weights.holes * holes +
+    weights.bumpiness * bumpiness +
+    weights.lines * linesCleared +
+    weights.wells * wells;
+};
+
+/**
+ * Presses and releases a command, as a player tapping a key would.
+ * @param s - The game state.
+ * @param command - The command.
+ * @returns The game state afterwards.
+ */
+const tap = (s: State, command: Command): State =>
+  step(step(s, { command, pressed: true }, 0), { command, pressed: false }, 0);
+
+/**
+ * The rotation commands to try, with no rotation first.
+ */
+const ROTATIONS: readonly (readonly Command[])[] = [[], ["rotateClockwise"], ["rotate180"], ["rotateCounterClockwise"]];
+
+/**
+ * Finds every placement of the current piece, and of the piece the hold would swap in, by playing
+ * out each rotation followed by taps to the left or right until the piece stops moving. Running the
+ * commands through the engine means every placement found can really be reached.
+ * @param s - The game state.
+ * @param weights - The weights boards are scored with.
+ * @returns The placements, each landing spot once, reached by its shortest commands.
+ */
+export const findPlacements = (s: State, weights: Weights): Placement[] => {
+  const starts = s.holdUsed || !s.config.hold ? [{ hold: false, state: s }] : [{ hold: false, state: s }, { hold: true, state: tap(s, "hold") }];
+
+  const placements = starts.flatMap(({ hold, state }) =>
+    ROTATIONS.flatMap(rotation => {
+      const rotated = rotation.reduce(tap, state);
+      return (["moveLeft", "moveRight"] as const).flatMap(direction =>
+        // Tap in one direction until the piece stops moving, keeping every position on the way
+        Array.from({ length: rotated.grid[0].length }).reduce<{ state: State, taps: number, moved: boolean, found: Placement[] }>(
+          (acc) => {
+            if (!acc.moved) {
+              return acc;
+            }
+            const landed = landingPosition(acc.state.currentTetrimino, acc.state.grid, piecesOf(s));
+            const placement = scorePlacement(acc.state.grid, landed, piecesOf(s), weights, hold, [
+              ...(hold ? ["hold" as const] : []), ...rotation, ...Array(acc.taps).fill(direction), "hardDrop",
+            ]);
+            const next = tap(acc.state, direction);
+            return { state: next, taps: acc.taps + 1, moved: next.currentTetrimino.x !== acc.state.currentTetrimino.x, found: [...acc.found, placement] };
+          },
+          { state: rotated, taps: 0, moved: true, found: [] }
+        ).found);
+    }));
+
+  // Keep the shortest way to each landing spot
+  const byCells = placements.reduce((best, placement) => {
+    const key = `${placement.hold}:${tetriminoCells(placement.tetrimino, piecesOf(s)).map(({ x, y }) => `${x},${y}`).sort().join(";")}`;
+    const known = best.get(key);
+    return !known || placement.commands.length < known.commands.length ? new Map(best).set(key, placement) : best;
+  }, new Map<string, Placement>());
+  return [...byCells.values()];
+};
+
+/**
+ * Scores a piece landing on the board.
+ * @returns The placement with its score.
+ */
+const scorePlacement = (grid: Grid, tetrimino: Tetrimino, pieces: PieceSet, weights: Weights, hold: boolean, commands: readonly Command[]): Placement => {
+  const placed = tetriminoCells(tetrimino, pieces).reduce<Grid>(
+    (acc, { x, y }) => y < 0 ? acc : acc.map((row, rowIndex) => rowIndex === y ? row.map((cell, col) => col === x ? { kind: tetrimino.kind, special: null } : cell) : row),
+    grid
+  );
+  const { grid: cleared, linesCleared } = clearLines(placed);
+  return { tetrimino, hold, commands, score: evaluateBoard(cleared, linesCleared, weights) };
+};
+
+/**
+ * Finds the best placement for the current piece.
+ * @param s - The game state.
+ * @param weights - The weights boards are scored with.
+ * @returns The best placement, or `null` if there is none.
+ */
+export const bestPlacement = (s: State, weights: Weights): Placement | null =>
+  findPlacements(s, weights).reduce<Placement | null>((best, placement) =>
+    best === null || placement.score > best.score ? placement : best, null);
+
+/**
+ * An AI player.
+ *
+ * @param level - Its difficulty.
+ * @param plan - The commands it has still to issue for the current piece.
+ * @param wait - The milliseconds until its next command.
+ */
+export type Bot = {
+  level: BotLevelName,
+  plan: readonly Command[],
+  wait: number,
+};
+
+/**
+ * Creates an AI player, ready to think about its first piece.
+ * @param level - Its difficulty.
+ * @returns The AI player.
+ */
+export const createBot = (level: BotLevelName): Bot =>
+  ({ level, plan: [], wait: BOT_LEVELS[level].thinkTime });
+
+/**
+ * Lets an AI player act for a while. With no plan it picks the best placement for the current piece;
+ * then it issues the plan's commands one at a time at its difficulty's speed. It stops after a hard drop,
+ * so that the next piece is planned from the board the drop leaves.
+ * @param bot - The AI player.
+ * @param s - Its game state.
+ * @param elapsed - The milliseconds since it last acted.
+ * @returns The AI player afterwards, and the commands to issue now, in order.
+ */
+export const advanceBot = (bot: Bot, s: State, elapsed: number): { bot: Bot, commands: Command[] } => {
+  if (s.phase !== "playing") {
+    return { bot, commands: [] };
+  }
+  const level = BOT_LEVELS[bot.level];
+
+  const run = (b: Bot, commands: Command[]): { bot: Bot, commands: Command[] } => {
+    if (b.wait > 0 || commands[commands.length - 1] === "hardDrop") {
+      return { bot: b, commands };
+    }
+    if (b.plan.length === 0) {
+      const plan = bestPlacement(s, level.weights)?.commands ?? ["hardDrop"];
+      return run({ ...b, plan }, commands);
+    }
+    const [command, ...plan] = b.plan;
+    const next = { ...b, plan, wait: b.wait + (plan.length === 0 ? level.thinkTime : level.moveDelay) };
+    return run(next, [...commands, command]);
+  };
+  return run({ ...bot, wait: bot.wait - elapsed }, []);
+};
@@ -0,0 +1,81 @@
+/** Attacks: how many garbage rows a clear sends to the opponent, and how incoming garbage is cancelled */
+
+import type { ClearEvent } from "./scoring";
+
+/**
+ * How many garbage rows each kind of clear sends. Lists are indexed by lines cleared, or by
+ * combo count for `combo`; counts past the end of a list use its last entry.
+ *
+ * @param lines - Rows sent by ordinary clears.
+ * @param tSpin - Rows sent by T-spin clears.
+ * @param tSpinMini - Rows sent by mini T-spin clears.
+ * @param combo - Extra rows sent for each clear in a row after the first.
+ * @param backToBack - Extra rows sent when the back-to-back bonus applies.
+ * @param perfectClear - Extra rows sent for clearing the whole board.
+ */
+export type AttackTable = {
+  lines: readonly number[],
+  tSpin: readonly number[],
+  tSpinMini: readonly number[],
+  combo: readonly number[],
+  backToBack: number,
+  perfectClear: number,
+};
+
+/**
+ * The guideline attack table: a tetris or a T-spin double sends 4.
+ */
+export const defaultAttackTable: AttackTable = {
+  lines: [0, 0, 1, 2, 4],
+  tSpin: [0, 2, 4, 6],
+  tSpinMini: [0, 0, 1],
+  combo: [0, 0, 1, 1, 2, 2, 3, 3, 4, 4, 4, 5],
+  backToBack: 1,
+  perfectClear: 10,
+};
+
+/**
+ * Reads a list at an index, using the last entry for indexes past the end.
+ * @param list - The list.
+ * @param index - The index.
+ * @returns The entry.
+ */
+const entryAt = (list: readonly number[], index: number): number =>
+  list[Math.min(index, list.length - 1)] ?? 0;
+
+/**
+ * Works out how many garbage rows a lock sends.
+ * @param event - What the lock scored, or `null` if it cleared nothing.
+ * @param table - The attack table.
+ * @returns The rows sent.
+ */
+export const attackFor = (event: ClearEvent | null, table: AttackTable): number => {
+  if (event === null || event.lines === 0) {
+    return 0;
+  }
+  const base = event.tSpin === "full" ? entryAt(table.tSpin, event.lines)
+    : event.tSpin === "mini" ? entryAt(table.tSpinMini, event.lines)
+    : entryAt(table.lines, event.lines);
+  return base +
+    entryAt(table.combo, event.combo) +
+    (event.backToBack ? table.backToBack : 0) +
+    (event.perfectClear ? table.perfectClear : 0);
+};
+
+/**
+ * Cancels incoming garbage with an attack, oldest batch first. Whatever is left of the attack is sent.
+ * @param pending - The incoming garbage batches, oldest first.
+ * @param attack - The rows the lock would send.
+ * @returns The incoming garbage left, and the rows left to send.
+ */
+export const cancelGarbage = (pending: readonly number[], attack: number): { pending: number[], attack: number } =>
+  pending.reduce<{ pending: number[], attack: number }>(
+    (acc, lines) => {
+      const cancelled = Math.min(lines, acc.attack);
+      return {
+        pending: lines > cancelled ? [...acc.pending, lines - cancelled] : acc.pending,
+        attack: acc.attack - cancelled,
+      };
+    },
+    { pending: [], attack }
+  );
@@ -0,0 +1,116 @@
+/** Board text: a board and its piece queue written as rows of characters, such as `..XX.IIII.` */
+
+import type { Cell, Grid, PieceKind } from "./types";
+
+/**
+ * A board and the pieces to play on it, as saved and loaded.
+ *
+ * @param rows - The board's rows, top to bottom, one character per cell: `.` for empty, `X` for garbage,
+ * or the kind of the piece that filled it. Rows missing from the top are empty.
+ * @param queue - The pieces to deal, in order.
+ * @param hold - The piece in the hold slot, if any.
+ */
+export type BoardSetup = {
+  rows: readonly string[],
+  queue: readonly PieceKind[],
+  hold: PieceKind | null,
+};
+
+/**
+ * The characters for an empty cell and a garbage cell. Any other character is the kind of a piece.
+ */
+export const BoardChars = {
+  EMPTY: ".",
+  GARBAGE: "X",
+} as const;
+
+/**
+ * Writes a cell as a character. Pieces with longer names than one character are written as garbage.
+ * @param cell - The cell.
+ * @returns The character.
+ */
+const cellChar = (cell: Cell): string =>
+  cell === null ? BoardChars.EMPTY
+    : cell.kind !== "garbage" && cell.kind.length === 1 && cell.kind !== BoardChars.EMPTY ? cell.kind
+    : BoardChars.GARBAGE;
+
+/**
+ * Writes a board as rows of characters, leaving out the empty rows at the top.
+ * @param grid - The board.
+ * @returns The rows, top to bottom.
+ */
+export const rowsFromGrid = (grid: Grid): string[] => {
+  const top = grid.findIndex(row => row.some(cell => cell !== null));
+  return top === -1 ? [] : grid.slice(top).map(row => row.map(cellChar).join(""));
+};
+
+/**
+ * Builds a board from rows of characters, sitting them on the floor.
+ * @param rows - The rows, top to bottom.
+ * @param width - The board's width.
+ * @param height - The board's height.
+ * @param kinds - The piece kinds a character may name.
+ * @returns The board, or `null` if a row is the wrong width, there are too many rows or a character is unknown.
+ */
+export const gridFromRows = (rows: readonly string[], width: number, height: number, kinds: readonly PieceKind[]): Grid | null => {
+  const cell = (char: string): Cell | undefined =>
+    char === BoardChars.EMPTY ? null
+      : char === BoardChars.GARBAGE ? { kind: "garbage", special: null }
+      : kinds.includes(char) ? { kind: char, special: null }
+      : undefined;
+  const cells = rows.map(row => [...row].map(cell));
+  return rows.length <= height && cells.every(row => row.length === width && row.every(c => c !== undefined))
+    ? [...Array.from({ length: height - rows.length }, () => Array<Cell>(width).fill(null)), ...cells as Cell[][]]
+    : null;
+};
+
+/**
+ * Writes a board setup as text: its rows, then a line for the queue and, if there is one, the held piece.
+ * @param setup - The board setup.
+ * @returns The text, e.g. "..XX.IIII.\nqueue: TIL".
+ */
+export const serialiseBoard = (setup: BoardSetup): string =>
+  [
+    ...setup.rows,
+    `queue: ${setup.queue.join(setup.queue.every(piece => piece.length === 1) ? "" : " ")}`,
+    ...(setup.hold ? [`hold: ${setup.hold}`] : []),
+  ].join("\n");
+
+/**
+ * Reads the `name: value` lines of board text.
+ * @param lines - The lines of the text, trimmed.
+ * @returns The value of each named line.
+ */
+export const fieldsOf = (lines: readonly string[]): ReadonlyMap<string, string> =>
+  new Map(lines.flatMap(line => {
+    const match = /^(\w+):\s*(.*)$/.exec(line);
+    return match ? [[match[1].toLowerCase(), match[2].trim()] as const] : [];
+  }));
+
+/**
+ * Reads a piece list, written with spaces between the pieces or, for one-character names, run together.
+ * @param text - The piece list, e.g. "TIL" or "T I L".
+ * @returns The pieces.
+ */
+const piecesIn = (text: string): PieceKind[] =>
+  text.includes(" ") ? text.split(/\s+/).filter(piece => piece !== "") : [...text];
+
+/**
+ * Reads board text, checking every row has the same width and every piece is known.
+ * @param text - The board text: rows, then `queue:` and optional `hold:` lines. Blank lines are ignored.
+ * @param kinds - The piece kinds that may be used.
+ * @returns The board setup, or `null` if the text is not a board.
+ */
+export const parseBoard = (text: string, kinds: readonly PieceKind[]): BoardSetup | null => {
+  const lines = text.split(/\r?\n/).map(line => line.trim()).filter(line => line !== "");
+  const rows = lines.filter(line => !line.includes(":"));
+  const fields = fieldsOf(lines);
+  const queue = piecesIn(fields.get("queue") ?? "");
+  const hold = fields.get("hold") || null;
+  // An empty board has no rows at all
+  return (rows.length === 0 || gridFromRows(rows, rows[0].length, rows.length, kinds) !== null) &&
+    queue.every(piece => kinds.includes(piece)) &&
+    (hold === null || kinds.includes(hold))
+    ? { rows, queue, hold }
+    : null;
+};
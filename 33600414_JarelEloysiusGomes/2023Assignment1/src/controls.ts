@@ -0,0 +1,216 @@
+/** Controls: maps physical inputs (keys and gamepad buttons) to abstract game commands */
+
+/**
+ * Something the player can ask the game to do.
+ */
+export type Command =
+  | "moveLeft"
+  | "moveRight"
+  | "softDrop"
+  | "hardDrop"
+  | "rotateClockwise"
+  | "rotateCounterClockwise"
+  | "rotate180"
+  | "hold"
+  | "undo"
+  | "redo"
+  | "rewind"
+  | "restart"
+  | "pause";
+
+/**
+ * A physical input: a `KeyboardEvent.code` such as "KeyA", or a gamepad button such as "Gamepad0".
+ */
+export type Input = string;
+
+/**
+ * A physical input going down or coming up.
+ *
+ * @param input - The input that changed.
+ * @param pressed - `true` when it went down, `false` when it came up.
+ */
+export type InputChange = { input: Input, pressed: boolean };
+
+/**
+ * The inputs bound to each command. A command can have several bindings, but an input belongs to at most one command.
+ */
+export type KeyMap = Readonly<Record<Command, readonly Input[]>>;
+
+/**
+ * Every command, in the order the controls panel lists them.
+ */
+export const COMMANDS: readonly Command[] = [
+  "moveLeft", "moveRight", "softDrop", "hardDrop",
+  "rotateClockwise", "rotateCounterClockwise", "rotate180",
+  "hold", "undo", "redo", "rewind", "restart", "pause",
+];
+
+/**
+ * What the controls panel calls each command.
+ */
+export const COMMAND_LABELS: Readonly<Record<Command, string>> = {
+  moveLeft: "Move left",
+  moveRight: "Move right",
+  softDrop: "Soft drop",
+  hardDrop: "Hard drop",
+  rotateClockwise: "Rotate clockwise",
+  rotateCounterClockwise: "Rotate counter-clockwise",
+  rotate180: "Rotate 180",
+  hold: "Hold",
+  undo: "Undo",
+  redo: "Redo",
+  rewind: "Back to start",
+  restart: "Restart",
+  pause: "Pause",
+};
+
+/**
+ * The name of a gamepad button as an input.
+ *
+ * @param button - The button index in the Gamepad API's standard mapping.
+ * @returns The input, e.g. "Gamepad14".
+ */
+export const gamepadInput = (button: number): Input => `Gamepad${button}`;
+
+/**
+ * The bindings players start with: WASD, the arrow keys and a standard gamepad.
+ */
+export const defaultKeyMap: KeyMap = {
+  moveLeft: ["KeyA", "ArrowLeft", gamepadInput(14)],
+  moveRight: ["KeyD", "ArrowRight", gamepadInput(15)],
+  softDrop: ["KeyS", "ArrowDown", gamepadInput(13)],
+  hardDrop: ["Space", gamepadInput(12)],
+  rotateClockwise: ["KeyW", "ArrowUp", gamepadInput(0)],
+  rotateCounterClockwise: ["KeyQ", "KeyZ", gamepadInput(1)],
+  rotate180: ["KeyE", gamepadInput(3)],
+  hold: ["KeyC", "ShiftLeft", gamepadInput(4)],
+  undo: ["KeyU", "Backspace"],
+  redo: ["KeyY"],
+  rewind: ["Home"],
+  restart: ["KeyR", gamepadInput(8)],
+  pause: ["KeyP", "Escape", gamepadInput(9)],
+};
+
+/**
+ * The bindings the second player starts with in versus: the right-hand side of the keyboard.
+ * Restarting and pausing are left to the first player, who runs the match.
+ */
+export const secondPlayerKeyMap: KeyMap = {
+  moveLeft: ["ArrowLeft"],
+  moveRight: ["ArrowRight"],
+  softDrop: ["ArrowDown"],
+  hardDrop: ["Enter", "Numpad0"],
+  rotateClockwise: ["ArrowUp"],
+  rotateCounterClockwise: ["Slash", "Numpad1"],
+  rotate180: ["Period", "Numpad2"],
+  hold: ["ShiftRight", "Numpad3"],
+  undo: [],
+  redo: [],
+  rewind: [],
+  restart: [],
+  pause: [],
+};
+
+/**
+ * Where key maps are stored unless told otherwise.
+ */
+export const KEY_MAP_STORAGE_KEY = "tetris.keyMap";
+
+/**
+ * Where the second player's key map is stored.
+ */
+export const SECOND_PLAYER_KEY_MAP_STORAGE_KEY = "tetris.keyMap.player2";
+
+/**
+ * Finds the command an input is bound to.
+ *
+ * @param keyMap - The key map in use.
+ * @param input - The physical input.
+ * @returns The command, or `null` if the input is not bound.
+ */
+export const commandFor = (keyMap: KeyMap, input: Input): Command | null =>
+  COMMANDS.find(command => keyMap[command].includes(input)) ?? null;
+
+/**
+ * Checks whether binding an input to a command would take it from another command.
+ *
+ * @param keyMap - The key map in use.
+ * @param command - The command the input would be bound to.
+ * @param input - The physical input.
+ * @returns The other command the input is bound to, or `null` if there is no conflict.
+ */
+export const findConflict = (keyMap: KeyMap, command: Command, input: Input): Command | null => {
+  const bound = commandFor(keyMap, input);
+  return bound === command ? null : bound;
+};
+
+/**
+ * Binds an input to a command, keeping its other bindings.
+ *
+ * @param keyMap - The key map to change.
+ * @param command - The command to bind.
+ * @param input - The physical input.
+ * @returns The new key map, or `null` if the input is already bound to another command.
+ */
+export const bindInput = (keyMap: KeyMap, command: Command, input: Input): KeyMap | null =>
+  findConflict(keyMap, command, input) !== null ? null
+    : keyMap[command].includes(input) ? keyMap
+    : { ...keyMap, [command]: [...keyMap[command], input] };
+
+/**
+ * Removes an input from a command.
+ *
+ * @param keyMap - The key map to change.
+ * @param command - The command to unbind from.
+ * @param input - The physical input.
+ * @returns The new key map.
+ */
+export const unbindInput = (keyMap: KeyMap, command: Command, input: Input): KeyMap =>
+  ({ ...keyMap, [command]: keyMap[command].filter(bound => bound !== input) });
+
+/**
+ * Works out which gamepad buttons went down or came up between two polls.
+ *
+ * @param previous - The inputs held at the last poll.
+ * @param current - The inputs held now.
+ * @returns The changes, releases first.
+ */
+export const inputChanges = (previous: readonly Input[], current: readonly Input[]): InputChange[] => [
+  ...previous.filter(input => !current.includes(input)).map(input => ({ input, pressed: false })),
+  ...current.filter(input => !previous.includes(input)).map(input => ({ input, pressed: true })),
+];
+
+/**
+ * Reads a key map from storage. Commands missing from the stored map, or stored in the wrong shape, keep their defaults.
+ *
+ * @param storage - Where the key map is kept, usually `localStorage`.
+ * @param key - The storage key.
+ * @param defaults - The key map to fall back on.
+ * @returns The stored key map, or the default one.
+ */
+export const loadKeyMap = (storage: Pick<Storage, "getItem">, key: string = KEY_MAP_STORAGE_KEY, defaults: KeyMap = defaultKeyMap): KeyMap => {
+  const stored = (() => {
+    try {
+      return JSON.parse(storage.getItem(key) ?? "{}");
+    } catch {
+      return {};
+    }
+  })();
+  const isInputList = (value: unknown): value is Input[] =>
+    Array.isArray(value) && value.every(input => typeof input === "string");
+
+  return COMMANDS.reduce<KeyMap>(
+    (keyMap, command) => isInputList(stored?.[command]) ? { ...keyMap, [command]: stored[command] } : keyMap,
+    defaults
+  );
+};
+
+/**
+ * Writes a key map to storage.
+ *
+ * @param storage - Where the key map is kept, usually `localStorage`.
+ * @param keyMap - The key map to save.
+ * @param key - The storage key.
+ */
+export const saveKeyMap = (storage: Pick<Storage, "setItem">, keyMap: KeyMap, key: string = KEY_MAP_STORAGE_KEY): void =>
+  storage.setItem(key, JSON.stringify(keyMap));
@@ -0,0 +1,1176 @@
+/** The game engine: the game state and the rules that change it, with no DOM or RxJS */
+
+import { RNG, nextRandom } from './util';
+import { createGenerator, GeneratorState, nextPiece } from './generators';
+import { Cell, defaultConfig, FilledCell, GameConfig, Grid, PieceKind, Tetrimino } from './types';
+import { rotateTetrimino, spawnTetrimino, tetriminoCells } from './pieces';
+import { pieceDefinition, piecePool, PieceSet, pieceSetFor, standardPieces, widestPiece } from './pieceSets';
+import { advanceInput, initialInput, InputState, pressSide, releaseSide, setSoftDrop, Side, softDropGravity } from './handling';
+import { Command } from './controls';
+import { entriesByFrame, Replay } from './replay';
+import { GAME_MODES } from './modes';
+import { canTransition, COUNTDOWN_MS, Phase } from './lifecycle';
+import { attackFor, cancelGarbage } from './attack';
+import { advanceGarbageTimer, drawGarbage, garbageRefill, GarbageRule, garbageRowCount, GarbageState, initialGarbage, queueGarbage, raiseGrid } from './garbage';
+import { FRAMES_PER_SECOND, gravityForLevel, levelForLines } from './gravity';
+import { ClearEvent, detectTSpin, hardDropPoints, initialScoring, RotationKick, scoreLock, ScoringState, softDropPoints } from './scoring';
+import { PUZZLE_GOALS } from './puzzle';
+import { BoardChars, gridFromRows } from './boardText';
+import { History, jumpHistory, recordHistory, redoHistory, startHistory, undoHistory } from './history';
+import { blastCells, drawSpecial, findTriggers, scoreMultiplier, SpecialEvent, specialAppeared, SpecialName, SpecialTrigger } from './specials';
+
+/** Constants */
+
+export const Constants = {
+  FRAME_MS: 1000 / FRAMES_PER_SECOND,
+  MIN_BOARD_WIDTH: 4,
+  MIN_BOARD_HEIGHT: 4,
+  MIN_PREVIEW_COUNT: 1,
+  MAX_PREVIEW_COUNT: 6,
+} as const;
+
+/** A command starting or stopping, after the key map has translated the physical input */
+export type CommandChange = { command: Command, pressed: boolean };
+
+export type ActionForKey = { apply: (s: State) => State };
+
+/** State processing */
+
+/**
+ * Represents the state of the game.
+ *
+ * @param grid - The game grid as a 2D array of cells.
+ * @param currentTetrimino - The currently active Tetrimino.
+ * @param queue - The upcoming Tetriminos, next one first.
+ * @param heldTetrimino - The Tetrimino in the hold slot, in its spawn orientation, if any.
+ * @param holdUsed - Whether the hold has already been used for the current Tetrimino.
+ * @param lockTimer - How long, in milliseconds, the current Tetrimino has been resting on the stack.
+ * @param lockResets - How many times moves or rotations have restarted the lock delay.
+ * @param lowestRow - The lowest row the bottom of the current Tetrimino has reached.
+ * @param lastRotationKick - The last rotation and the kick it used, or null if the last move was not a rotation.
+ * @param scoring - The combo and back-to-back state.
+ * @param lastClear - What the last lock scored, if it cleared lines or was a T-spin.
+ * @param lastSpecial - What special blocks did on the last lock: set off by its clear, or dealt as the next piece.
+ * @param userScore - The user's current score.
+ * @param userLevel - The user's current level.
+ * @param lines - How many lines have been cleared this game.
+ * @param garbage - The garbage waiting to rise, the garbage timer and how much garbage has been dealt and cleared.
+ * @param gravityProgress - The fraction of a row gravity has moved the current Tetrimino since it last fell.
+ * @param input - Which movement keys are held, for auto-shift and soft drop.
+ * @param frame - How many ticks the game has run for.
+ * @param elapsed - How long, in milliseconds, the game has run for.
+ * @param won - Whether the game ended by reaching the mode's goal or time limit rather than topping out.
+ * @param highScore - The highest score achieved in the game.
+ * @param phase - Where the game is in its lifecycle: in the menu, counting down, playing, paused or over.
+ * @param countdown - The milliseconds left on the countdown before play starts.
+ * @param seed - The random seed used to generate the next Tetrimino.
+ * @param generator - The state of the piece generator.
+ * @param config - The settings chosen for this game.
+ * @param history - In modes that can undo placements, the state at the start of the game and after each lock, for stepping back and forth through.
+ *
+ * @returns An object representing the game state.
+ */
+export type State = {
+  grid: Grid,
+  currentTetrimino: Tetrimino,
+  queue: Tetrimino[],      // Upcoming Tetriminos shown in the preview
+  heldTetrimino: Tetrimino | null,
+  holdUsed: boolean,
+  lockTimer: number,
+  lockResets: number,
+  lowestRow: number,
+  lastRotationKick: RotationKick | null,
+  scoring: ScoringState,
+  lastClear: ClearEvent | null,
+  lastSpecial: SpecialEvent | null,
+  userScore: number,       // Add score property
+  userLevel: number,       // Add level property
+  lines: number,
+  garbage: GarbageState,
+  gravityProgress: number,
+  input: InputState,
+  frame: number,
+  elapsed: number,
+  won: boolean,
+  highScore: number,   // Add highScore property
+  phase: Phase,
+  countdown: number,
+  seed: number,        // Seed for the next random draw
+  generator: GeneratorState,
+  config: GameConfig,
+  history: History<State> | null,
+};
+
+/**
+ * Creates the initial game state from a seed, ready to play.
+ * The same seed and config always produce the same sequence of Tetriminos.
+ * @param seed - The seed for the random number generator.
+ * @param config - The settings for this game.
+ * @returns {State} The initial game state.
+ */
+export function createInitialState(seed: number, requested: GameConfig = defaultConfig): State {
+  const config = clampBoard(requested);
+
+  // Draw the current Tetrimino, then fill the queue, threading the seed between draws
+  const current = generateANewTetrimino(seed, createGenerator(config.generator), config);
+  const next = generateTetriminos(clampPreviewCount(config.previewCount), current.seed, current.generator, config);
+
+  // Modes with garbage start with their garbage rows on the board
+  const rule = GAME_MODES[config.mode].garbage;
+  const startingGarbage = rule ? garbageAfterLock(initialGarbage(seed, rule), emptyGrid(config), 0, rule) : null;
+
+  // A puzzle starts from its own board and pieces instead, with a piece dealt as usual if none of its pieces are in the set
+  const puzzle = GAME_MODES[config.mode].puzzle ? puzzleStart(config) : null;
+  const first = puzzle?.current ?? current.tetrimino;
+
+  const start: State = {
+    grid: puzzle?.grid ?? startingGarbage?.grid ?? emptyGrid(config),
+    currentTetrimino: first,
+    queue: puzzle?.queue ?? next.tetriminos, // Initialize the queue
+    heldTetrimino: puzzle?.held ?? null,    // The hold slot starts empty
+    holdUsed: false,
+    ...initialLockState(first, pieceSetFor(config.pieces)),
+    scoring: initialScoring,
+    lastClear: null,
+    lastSpecial: specialAppeared(first.special),
+    userScore: 0,            // Initialize score to 0
+    userLevel: config.startLevel, // Start on the configured level
+    lines: 0,
+    garbage: startingGarbage?.garbage ?? initialGarbage(seed, rule),
+    gravityProgress: 0,
+    input: initialInput,
+    frame: 0,
+    elapsed: 0,
+    won: false,
+    highScore: 0,        // Initialize highScore to 0
+    phase: "playing",
+    countdown: 0,
+    seed: next.seed,
+    generator: next.generator,
+    config,
+    history: null,
+  };
+
+  // Modes that can undo placements start their history with the first piece
+  return GAME_MODES[config.mode].history > 0 ? { ...start, history: startHistory(start) } : start;
+}
+
+/**
+ * Keeps a requested board big enough to play on, and wide enough for the widest piece, with the spawn row inside it.
+ * A puzzle's board is as wide as its rows, and tall enough to hold them all.
+ * @param config - The settings asked for.
+ * @returns The settings with the board's size and spawn row in range.
+ */
+const clampBoard = (config: GameConfig): GameConfig => {
+  const rows = GAME_MODES[config.mode].puzzle ? config.puzzle.rows : [];
+  const requestedWidth = rows.length > 0 ? Math.max(...rows.map(row => [...row].length)) : Math.floor(config.boardWidth);
+  const boardWidth = Math.max(requestedWidth, Constants.MIN_BOARD_WIDTH, widestPiece(pieceSetFor(config.pieces)));
+  const bufferHeight = Math.max(Math.floor(config.bufferHeight), 0);
+  const boardHeight = Math.max(Math.floor(config.boardHeight), Constants.MIN_BOARD_HEIGHT, rows.length - bufferHeight);
+  const spawnRow = Math.min(Math.max(Math.floor(config.spawnRow), 0), boardHeight + bufferHeight - 1);
+  return { ...config, boardWidth, boardHeight, bufferHeight, spawnRow };
+};
+
+/**
+ * Creates a grid with every cell empty, with the hidden rows above the shown ones.
+ * @param config - The game's settings.
+ * @returns The empty grid.
+ */
+const emptyGrid = (config: GameConfig): Grid =>
+  Array.from({ length: config.bufferHeight + config.boardHeight }, () => Array(config.boardWidth).fill(null));
+
+/**
+ * Sets up a puzzle's board and pieces. Rows narrower than the board are filled out with empty cells, cells of
+ * pieces the game's piece set does not have are kept as garbage, and those pieces are left out of the queue.
+ * @param config - The game's settings, with the puzzle.
+ * @returns The board, the first piece, if any is left, the pieces after it and the held piece.
+ */
+const puzzleStart = (config: GameConfig): { grid: Grid, current: Tetrimino | null, queue: Tetrimino[], held: Tetrimino | null } => {
+  const kinds = pieceSetFor(config.pieces).pieces.map(piece => piece.kind);
+  const [first, ...rest] = config.puzzle.queue.filter(kind => kinds.includes(kind));
+  const hold = config.puzzle.hold !== null && kinds.includes(config.puzzle.hold) ? config.puzzle.hold : null;
+  const rows = config.puzzle.rows.map(row => [...row]
+    .map(char => char === BoardChars.EMPTY || kinds.includes(char) ? char : BoardChars.GARBAGE).join("")
+    .padEnd(config.boardWidth, BoardChars.EMPTY));
+  return {
+    // The rows always fit, as the board is sized from them
+    grid: gridFromRows(rows, config.boardWidth, config.bufferHeight + config.boardHeight, kinds) ?? emptyGrid(config),
+    current: first !== undefined ? spawnFor(first, null, config) : null,
+    queue: rest.map(kind => spawnFor(kind, null, config)),
+    held: hold ? spawnFor(hold, null, config) : null,
+  };
+};
+
+/**
+ * Creates a Tetrimino where the game's settings say new pieces appear.
+ * @param kind - The piece kind.
+ * @param special - The special block it is made of, if any.
+ * @param config - The game's settings.
+ * @returns The spawned Tetrimino.
+ */
+const spawnFor = (kind: PieceKind, special: SpecialName | null, config: GameConfig): Tetrimino =>
+  spawnTetrimino(kind, special, config.boardWidth, config.spawnColumn, config.spawnRow, pieceSetFor(config.pieces));
+
+/**
+ * Gets the piece set a game deals from.
+ * @param s - The game state.
+ * @returns The piece set.
+ */
+export const piecesOf = (s: State): PieceSet => pieceSetFor(s.config.pieces);
+
+/**
+ * Ends a timed game once its time limit is reached.
+ * @param s - The game state.
+ * @returns The game state, over and won if the time is up.
+ */
+const checkTimeLimit = (s: State): State => {
+  const timeLimit = GAME_MODES[s.config.mode].timeLimit;
+  return timeLimit !== null && s.elapsed >= timeLimit && s.phase === "playing"
+    ? { ...s, elapsed: timeLimit, phase: "gameOver", won: true }
+    : s;
+};
+
+/**
+ * Raises the garbage that comes with a lock. Queued batches rise when the lock cleared nothing,
+ * each batch with one hole; then modes that keep garbage on the board top it back up, with a new
+ * hole on every row.
+ * @param garbage - The garbage state, counting the garbage rows the lock cleared.
+ * @param grid - The grid after the lock's lines are cleared.
+ * @param linesCleared - How many lines the lock cleared.
+ * @param rule - The mode's garbage rule, or `null` if the mode deals none.
+ * @returns The raised grid, the garbage state, and whether filled cells were pushed off the top.
+ */
+function garbageAfterLock(garbage: GarbageState, grid: Grid, linesCleared: number, rule: GarbageRule | null): { grid: Grid, garbage: GarbageState, overflow: boolean } {
+  // Raise a set of rows, remembering any overflow along the way
+  const rise = (acc: { grid: Grid, garbage: GarbageState, overflow: boolean }, lines: number, messy: boolean) => {
+    const { rows, garbage } = drawGarbage(acc.garbage, lines, acc.grid[0].length, messy);
+    const raised = raiseGrid(acc.grid, rows);
+    return { grid: raised.grid, garbage, overflow: acc.overflow || raised.overflow };
+  };
+
+  const queued = linesCleared > 0 ? [] : garbage.pending;
+  const afterQueue = queued.reduce(
+    (acc, lines) => rise(acc, lines, false),
+    { grid, garbage: { ...garbage, pending: linesCleared > 0 ? garbage.pending : [] }, overflow: false }
+  );
+  const refill = rule ? garbageRefill(afterQueue.garbage, rule, garbageRowCount(afterQueue.grid)) : 0;
+  return refill > 0 ? rise(afterQueue, refill, true) : afterQueue;
+}
+
+/**
+ * Raises garbage under the current Tetrimino straight away, lifting the Tetrimino with the
+ * stack so that it never ends up inside the garbage. Pushing filled cells off the top tops out.
+ * @param s - The game state.
+ * @param lines - How many garbage rows rise, each with its own hole.
+ * @returns The game state with the garbage risen.
+ */
+function riseGarbage(s: State, lines: number): State {
+  if (lines <= 0) {
+    return s;
+  }
+  const { rows, garbage } = drawGarbage(s.garbage, lines, s.config.boardWidth, true);
+  const { grid, overflow } = raiseGrid(s.grid, rows);
+  const raised = {
+    ...s,
+    grid,
+    garbage,
+    currentTetrimino: { ...s.currentTetrimino, y: s.currentTetrimino.y - lines },
+    lowestRow: s.lowestRow - lines,
+  };
+  return !overflow ? raised
+    : GAME_MODES[s.config.mode].topOut ? transition(s, "gameOver")
+    : { ...raised, grid: emptyGrid(s.config) };
+}
+
+/**
+ * Moves the game to another phase of its lifecycle, if the lifecycle allows it.
+ * @param s - The game state.
+ * @param phase - The phase to move to.
+ * @returns The game state in the new phase, or unchanged if the move is not allowed.
+ */
+const transition = (s: State, phase: Phase): State =>
+  canTransition(s.phase, phase) ? { ...s, phase } : s;
+
+/**
+ * Keeps a requested preview depth within the supported range.
+ * @param count - The requested number of preview pieces.
+ * @returns The number of pieces the queue will hold.
+ */
+const clampPreviewCount = (count: number): number =>
+  Math.min(Math.max(Math.floor(count), Constants.MIN_PREVIEW_COUNT), Constants.MAX_PREVIEW_COUNT);
+
+/**
+ * Takes the next Tetrimino off the queue and draws a new one onto the end.
+ * @param s - The current game state.
+ * @returns The dequeued Tetrimino together with the updated queue, seed and generator.
+ */
+function dequeueTetrimino(s: State): { tetrimino: Tetrimino | null, queue: Tetrimino[], seed: number, generator: GeneratorState } {
+  const [tetrimino, ...rest] = s.queue;
+  // Puzzles deal only the pieces they come with, and run out
+  if (GAME_MODES[s.config.mode].puzzle) {
+    return { tetrimino: tetrimino ?? null, queue: rest, seed: s.seed, generator: s.generator };
+  }
+  const drawn = generateANewTetrimino(s.seed, s.generator, s.config);
+  return { tetrimino, queue: [...rest, drawn.tetrimino], seed: drawn.seed, generator: drawn.generator };
+}
+
+/**
+ * Gets the lock delay fields for a Tetrimino that has just spawned.
+ * @param tetrimino - The newly spawned Tetrimino.
+ * @param pieces - The piece set the Tetrimino comes from.
+ * @returns The lock timer, lock resets and lowest row for the new Tetrimino.
+ */
+const initialLockState = (tetrimino: Tetrimino, pieces: PieceSet): Pick<State, 'lockTimer' | 'lockResets' | 'lowestRow' | 'lastRotationKick'> => ({
+  lockTimer: 0,
+  lockResets: 0,
+  lowestRow: bottomRow(tetrimino, pieces),
+  lastRotationKick: null,
+});
+
+/**
+ * Gets the row of the lowest cell of a Tetrimino.
+ * @param tetrimino - The Tetrimino.
+ * @param pieces - The piece set the Tetrimino comes from.
+ * @returns The lowest row the Tetrimino covers.
+ */
+const bottomRow = (tetrimino: Tetrimino, pieces: PieceSet): number =>
+  Math.max(...tetriminoCells(tetrimino, pieces).map(({ y }) => y));
+
+/**
+ * Checks whether a Tetrimino is resting on the stack or the floor.
+ * @param tetrimino - The Tetrimino.
+ * @param grid - The game grid.
+ * @param pieces - The piece set the Tetrimino comes from.
+ * @returns `true` if the Tetrimino cannot move down.
+ */
+export const isGrounded = (tetrimino: Tetrimino, grid: Grid, pieces: PieceSet = standardPieces): boolean =>
+  isCollisionDetected({ ...tetrimino, y: tetrimino.y + 1 }, grid, pieces);
+
+/**
+ * Projects a Tetrimino straight down to where it would land.
+ * @param tetrimino - The Tetrimino to project.
+ * @param grid - The game grid.
+ * @param pieces - The piece set the Tetrimino comes from.
+ * @returns The Tetrimino at its landing position.
+ */
+export function landingPosition(tetrimino: Tetrimino, grid: Grid, pieces: PieceSet = standardPieces): Tetrimino {
+  // Move the Tetrimino down until one more row would collide
+  return isGrounded(tetrimino, grid, pieces)
+    ? tetrimino
+    : landingPosition({ ...tetrimino, y: tetrimino.y + 1 }, grid, pieces);
+}
+
+/**
+ * Moves or rotates the current Tetrimino without moving it down, applying
+ * the move-reset rule: while grounded, each successful move restarts the
+ * lock delay, up to a capped number of times.
+ * @param s - The current game state.
+ * @param moved - The Tetrimino after the move or rotation.
+ * @returns The updated game state.
+ */
+function shiftTetrimino(s: State, moved: Tetrimino): State {
+  const resetsLock = isGrounded(s.currentTetrimino, s.grid, piecesOf(s)) && s.lockResets < s.config.maxLockResets;
+  return resetsLock
+    ? { ...s, currentTetrimino: moved, lastRotationKick: null, lockTimer: 0, lockResets: s.lockResets + 1 }
+    : { ...s, currentTetrimino: moved, lastRotationKick: null };
+}
+
+/**
+ * Moves the current Tetrimino down one row. Reaching a new lowest row gives
+ * back all lock resets.
+ * @param s - The current game state.
+ * @param moved - The Tetrimino after moving down.
+ * @returns The updated game state.
+ */
+function descendTetrimino(s: State, moved: Tetrimino): State {
+  const row = bottomRow(moved, piecesOf(s));
+  return row > s.lowestRow
+    ? { ...s, currentTetrimino: moved, lastRotationKick: null, lockTimer: 0, lockResets: 0, lowestRow: row }
+    : { ...s, currentTetrimino: moved, lastRotationKick: null, lockTimer: 0 };
+}
+
+/**
+ * Move the current Tetrimino down by one unit.
+ *
+ * @param {State} s - The current game state.
+ * @returns {State} The updated game state with the Tetrimino moved down.
+ */
+const tick = (s: State): State => {
+  const newTetrimino = { ...s.currentTetrimino, y: s.currentTetrimino.y + 1 };
+  return { ...s, currentTetrimino: newTetrimino };
+};
+
+/**
+ * Check if there is a collision between a moved Tetrimino and the game grid or its walls.
+ * The grid's own size sets the walls and floor. Cells above the top of the grid are treated as empty.
+ * @param movedTetrimino The Tetrimino that has been moved.
+ * @param grid The game grid.
+ * @param pieces The piece set the Tetrimino comes from.
+ * @returns True if a collision is detected, otherwise false.
+ */
+export function isCollisionDetected(movedTetrimino: Tetrimino, grid: Grid, pieces: PieceSet = standardPieces): boolean {
+  return tetriminoCells(movedTetrimino, pieces).some(block =>
+    block.x < 0 || block.x >= grid[0].length || block.y >= grid.length ||
+    (block.y >= 0 && grid[block.y][block.x] !== null)
+  );
+}
+
+/**
+ * Processes collisions in the game.
+ * @param s - The game state to process collisions for.
+ * @returns The updated game state after processing collisions.
+ */
+function processCollision(s: State): State {
+  // Check for a T-spin before the Tetrimino becomes part of the grid, for the pieces that score them
+  const pieces = piecesOf(s);
+  const tSpin = pieceDefinition(pieces, s.currentTetrimino.kind).tSpin
+    ? detectTSpin(s.currentTetrimino, s.grid, s.lastRotationKick)
+    : "none";
+
+  // Create a new grid with the current Tetrimino placed on it
+  const newGrid = placeTetrimino(s.currentTetrimino, s.grid, pieces);
+  // Clear completed lines
+  const { grid: clearedGrid, linesCleared, garbageCleared, triggers, blasted } = clearLines(newGrid);
+  const perfectClear = linesCleared > 0 && clearedGrid.every(row => row.every(cell => cell === null));
+
+  // Calculate the new score based on the clear, multiplied by the level
+  const { scoring, event } = scoreLock(s.scoring, linesCleared, tSpin, perfectClear, s.userLevel);
+  const newScore = s.userScore + (event?.points ?? 0);
+
+  // Special blocks in the cleared lines multiply the clear's points
+  const multiplier = scoreMultiplier(triggers);
+  const bonus = (multiplier - 1) * (event?.points ?? 0);
+
+  // Update high score if needed
+  const newHighScore = Math.max(s.highScore, newScore + bonus);
+
+  // Calculate the new level based on the lines cleared, in modes where the level goes up
+  const mode = GAME_MODES[s.config.mode];
+  const lines = s.lines + linesCleared;
+  const newLevel = mode.levelUp ? levelForLines(s.config.startLevel, lines, s.config.linesPerLevel) : s.userLevel;
+
+  // The clear's attack cancels incoming garbage first, and what is left of it is sent
+  const { pending, attack } = cancelGarbage(s.garbage.pending, attackFor(event, s.config.attackTable));
+
+  // Garbage rises after the lock
+  const { grid, garbage, overflow } = garbageAfterLock(
+    { ...s.garbage, pending, cleared: s.garbage.cleared + garbageCleared, sent: s.garbage.sent + attack },
+    clearedGrid, linesCleared, mode.garbage
+  );
+
+  // The front of the queue becomes the current Tetrimino. Once a puzzle's queue is empty, the held piece is the last to play
+  const { tetrimino: dealt, queue, seed, generator } = dequeueTetrimino(s);
+  const newTetrimino = dealt ?? s.heldTetrimino;
+  const heldTetrimino = dealt ? s.heldTetrimino : null;
+
+  // Announce the special blocks the clear set off, or else a special piece coming into play
+  const lastSpecial: SpecialEvent | null = triggers.length > 0
+    ? { type: "triggered", specials: [...new Set(triggers.map(trigger => trigger.special))], multiplier, blasted }
+    : specialAppeared(newTetrimino?.special ?? null);
+
+  // The game is won once the mode's line goal is reached, all of its garbage is cleared or the puzzle's goal is reached
+  // Each lock moves the history on, ending the game or starting the next piece, so the placement can be undone
+  const recorded = (next: State): State =>
+    ({ ...next, history: s.history && recordHistory(s.history, { ...next, history: null }, mode.history) });
+
+  const ended: State = { ...s, grid: clearedGrid, phase: "gameOver", userScore: newScore + bonus, userLevel: newLevel, highScore: newHighScore, lines, garbage, scoring, lastClear: event, lastSpecial };
+  const garbageGoal = mode.garbage?.total ?? null;
+  if ((mode.lineGoal !== null && lines >= mode.lineGoal) || (garbageGoal !== null && garbage.cleared >= garbageGoal) ||
+    (mode.puzzle && PUZZLE_GOALS[s.config.puzzle.goal].solved(grid, event))) {
+    return recorded({ ...ended, won: true });
+  }
+
+  // A puzzle is failed once its pieces run out
+  if (newTetrimino === null) {
+    return recorded({ ...ended, heldTetrimino });
+  }
+
+  // Topping out ends the game, unless the mode clears the board and carries on. A piece that
+  // locks wholly above the shown rows tops out too
+  const lockedOut = tetriminoCells(s.currentTetrimino, pieces).every(({ y }) => y < s.config.bufferHeight);
+  const toppedOut = overflow || lockedOut || isCollisionDetected(newTetrimino, grid, pieces);
+  if (toppedOut && mode.topOut) {
+    return recorded({ ...ended, grid: s.grid });
+  }
+  const next: State = {
+    ...s,
+    grid: toppedOut ? emptyGrid(s.config) : grid,
+    currentTetrimino: newTetrimino,
+    queue,
+    heldTetrimino,
+    holdUsed: false, // The next Tetrimino may be held again
+    ...initialLockState(newTetrimino, pieces),
+    userScore: newScore + bonus,
+    userLevel: newLevel,
+    lines,
+    garbage,
+    gravityProgress: 0,
+    highScore: newHighScore,
+    scoring,
+    lastClear: event,
+    lastSpecial,
+    seed,
+    generator,
+  };
+  return recorded(next);
+}
+
+// Left, Right, Down, Rotate, Drop, Restart, Pause/Resume
+
+/**
+ * Move Tetrimino Left
+ * @param s - The current game state
+ * @returns The updated game state after moving the Tetrimino left
+ */
+export class moveTetriminoLeft implements ActionForKey {
+  // Apply the action to the current state
+  apply(s: State): State {
+    // Calculate the new position of the Tetrimino when moved left
+    const newTetrimino = { ...s.currentTetrimino, x: s.currentTetrimino.x - 1 };
+
+    // Check for collision with the left wall or existing blocks in the grid
+    const isGridCollision = isCollisionDetected(newTetrimino, s.grid, piecesOf(s));
+
+    // Return the updated state based on collision results
+    return isGridCollision
+      ? s // Don't update state if detect collision
+      : shiftTetrimino(s, newTetrimino);
+  }
+}
+
+/**
+ * Moves the Tetrimino to the right.
+ * @param s - The current game state.
+ * @returns The updated game state after the Tetrimino has been moved.
+ */
+export class moveTetriminoRight implements ActionForKey {
+  // Apply the action to the current state
+  apply(s: State): State {
+    // Calculate the new position of the Tetrimino when moved right
+    const newTetrimino = { ...s.currentTetrimino, x: s.currentTetrimino.x + 1 };
+
+    // Check for collision with the right wall or existing blocks in the grid
+    const isGridCollision = isCollisionDetected(newTetrimino, s.grid, piecesOf(s));
+
+    // Return the updated state based on collision results
+    return isGridCollision
+      ? s // Don't update state if detected collision
+      : shiftTetrimino(s, newTetrimino);
+  }
+}
+
+/**
+ * Move Tetrimino Down Action
+ *
+ * A grounded Tetrimino is not locked by moving down; it locks once the lock delay runs out.
+ * @param {State} s - The current game state.
+ * @returns {State} - The updated game state after moving the Tetrimino down.
+ */
+export class moveTetriminoDown implements ActionForKey {
+  // Apply the action to the current state
+  apply(s: State): State {
+    // Calculate the new position of the Tetrimino when moved down
+    const newTetrimino = { ...s.currentTetrimino, y: s.currentTetrimino.y + 1 };
+
+    // Check for collision with existing blocks in the grid
+    const isGridCollision = isCollisionDetected(newTetrimino, s.grid, piecesOf(s));
+
+    // Return the updated state based on collision results, scoring the soft drop
+    return isGridCollision
+      ? s // Leave locking to the lock delay
+      : { ...descendTetrimino(s, newTetrimino), userScore: s.userScore + softDropPoints(1) }; // Update state if no collision
+  }
+}
+
+/**
+ * Rotates the current Tetrimino using the Super Rotation System.
+ *
+ * The Tetrimino turns around the true centre of its shape. If the rotated
+ * Tetrimino collides, the SRS wall kicks for the rotation are tried in turn.
+ *
+ * @param s - The current state.
+ * @returns The updated state after rotating the Tetrimino if a kick fits, otherwise, the current state remains unchanged.
+ */
+export class Rotate implements ActionForKey {
+  // Clockwise quarter turns: 1 (clockwise), 2 (180) or 3 (counter-clockwise)
+  constructor(public readonly turns: 1 | 2 | 3) {}
+
+  // Apply the action to the current state
+  apply(s: State): State {
+    // Calculate the rotated Tetrimino without modifying the original
+    const rotatedTetrimino = rotateTetrimino(
+      s.currentTetrimino,
+      this.turns,
+      tetrimino => !isCollisionDetected(tetrimino, s.grid, piecesOf(s)),
+      piecesOf(s)
+    );
+
+    // Return the updated state based on whether any kick fits, remembering the kick for T-spin detection
+    return rotatedTetrimino
+      ? { ...shiftTetrimino(s, rotatedTetrimino.tetrimino), lastRotationKick: { kick: rotatedTetrimino.kick, turns: this.turns } }
+      : s; // Don't rotate if every kick collides
+  }
+}
+
+/**
+ * Applies the instant drop action to the current state.
+ *
+ * This function moves the current Tetrimino down until it collides with
+ * existing blocks in the grid, and then locks it straight away.
+ *
+ * @param {State} s - The current game state.
+ * @returns {State} The updated game state after applying the instant drop action.
+ */
+export class instantDROP implements ActionForKey {
+  // Apply the action to the current state
+  apply(s: State): State {
+    // Calculate where the Tetrimino lands
+    const newTetrimino = landingPosition(s.currentTetrimino, s.grid, piecesOf(s));
+    const rows = newTetrimino.y - s.currentTetrimino.y;
+
+    // Lock the Tetrimino where it landed, skipping the lock delay and scoring the drop
+    return processCollision({
+      ...s,
+      currentTetrimino: newTetrimino,
+      lastRotationKick: rows > 0 ? null : s.lastRotationKick, // Falling after a rotation is not a spin
+      userScore: s.userScore + hardDropPoints(rows),
+    });
+  }
+}
+
+/**
+ * Duplicates a grid.
+ * @param board - The grid to duplicate.
+ * @returns A new grid that is a duplicate of the input grid.
+ */
+const gridDuplicate = (grid: Grid): Grid => {
+  return grid.map(row => [...row]);
+};
+
+/**
+ * Holds the current Tetrimino.
+ *
+ * The current Tetrimino is swapped with the held one, or replaced by the next
+ * one in the queue if the hold slot is empty. Only one swap is allowed until
+ * the current Tetrimino locks.
+ * @implements {ActionForKey}
+ */
+export class Hold implements ActionForKey {
+  apply(s: State): State {
+    // Only one swap per Tetrimino, and none when the game has the hold turned off
+    if (s.holdUsed || !s.config.hold) {
+      return s;
+    }
+
+    // Take the held Tetrimino, or the next one in the queue if the slot is empty
+    const { tetrimino, queue, seed, generator } = s.heldTetrimino
+      ? { tetrimino: s.heldTetrimino, queue: s.queue, seed: s.seed, generator: s.generator }
+      : dequeueTetrimino(s);
+    // A puzzle with no pieces left has nothing to swap in
+    if (tetrimino === null) {
+      return s;
+    }
+
+    // The Tetrimino goes into the hold slot in its spawn orientation
+    const held = {
+      ...s,
+      currentTetrimino: tetrimino,
+      heldTetrimino: spawnFor(s.currentTetrimino.kind, s.currentTetrimino.special, s.config),
+      holdUsed: true,
+      ...initialLockState(tetrimino, piecesOf(s)),
+      queue,
+      seed,
+      generator,
+    };
+
+    // The game is over if the swapped in Tetrimino has no room to spawn, unless the mode clears the board instead
+    return !isCollisionDetected(tetrimino, s.grid, piecesOf(s)) ? held
+      : GAME_MODES[s.config.mode].topOut ? transition(s, "gameOver")
+      : { ...held, grid: emptyGrid(s.config) };
+  }
+}
+
+/**
+ * Presses a side key: shifts the Tetrimino once straight away, then starts charging DAS.
+ * @implements {ActionForKey}
+ */
+export class PressSide implements ActionForKey {
+  // The side pressed is passed as a parameter
+  constructor(public readonly side: Side) {}
+
+  apply(s: State): State {
+    const shift = this.side === "left" ? new moveTetriminoLeft() : new moveTetriminoRight();
+    return shift.apply({ ...s, input: pressSide(s.input, this.side) });
+  }
+}
+
+/**
+ * Releases a side key, handing the direction to the other side key if it is still held.
+ * @implements {ActionForKey}
+ */
+export class ReleaseSide implements ActionForKey {
+  // The side released is passed as a parameter
+  constructor(public readonly side: Side) {}
+
+  apply(s: State): State {
+    return { ...s, input: releaseSide(s.input, this.side) };
+  }
+}
+
+/**
+ * Presses or releases the soft drop key. Pressing it moves the Tetrimino down a row straight away;
+ * while it is held, ticks apply gravity multiplied by the soft drop factor.
+ * @implements {ActionForKey}
+ */
+export class SoftDrop implements ActionForKey {
+  // Whether the key is now held is passed as a parameter
+  constructor(public readonly held: boolean) {}
+
+  apply(s: State): State {
+    const input = setSoftDrop(s.input, this.held);
+    return this.held
+      ? new moveTetriminoDown().apply({ ...s, input })
+      : { ...s, input };
+  }
+}
+
+/**
+ * Restarts the game, counting down before play starts.
+ * @implements {ActionForKey}
+ */
+export class Restart implements ActionForKey {
+  // The seed for the new game, and optionally new settings such as another mode, are passed as parameters
+  constructor(public readonly seed: number, public readonly config?: GameConfig) {}
+
+  apply(s: State): State {
+    // Reset the game to its initial state, but keep the high score if the mode stays the same
+    const config = this.config ?? s.config;
+    return {
+      ...createInitialState(this.seed, config),
+      highScore: config.mode === s.config.mode ? s.highScore : 0,
+      phase: "countdown",
+      countdown: COUNTDOWN_MS,
+    };
+  }
+}
+
+/**
+ * Moves a game to another point of its history. The clock, the keys held and the high score carry on, while
+ * the phase is the one at that point: going back from a finished puzzle plays on from there.
+ * @param s - The current game state.
+ * @param history - The history moved along, or `null` if there is nowhere to move to.
+ * @returns The state at that point of the history, or the current state.
+ */
+const travel = (s: State, history: History<State> | null): State =>
+  history
+    ? { ...history.present, history, input: s.input, frame: s.frame, elapsed: s.elapsed, highScore: s.highScore, countdown: s.countdown }
+    : s;
+
+/**
+ * Takes back the last placement, going back to the start of the piece before, with the clock still running.
+ * Outside of modes that keep a history, such as practice and puzzles, it does nothing.
+ * @implements {ActionForKey}
+ */
+export class Undo implements ActionForKey {
+  apply(s: State): State {
+    return s.history ? travel(s, undoHistory(s.history)) : s;
+  }
+}
+
+/**
+ * Makes a placement taken back by undoing again, as long as nothing has been placed since.
+ * @implements {ActionForKey}
+ */
+export class Redo implements ActionForKey {
+  apply(s: State): State {
+    return s.history ? travel(s, redoHistory(s.history)) : s;
+  }
+}
+
+/**
+ * Goes back to the start of the history, such as a puzzle's starting position, with the clock still running.
+ * @implements {ActionForKey}
+ */
+export class Rewind implements ActionForKey {
+  apply(s: State): State {
+    return s.history ? travel(s, jumpHistory(s.history, 0)) : s;
+  }
+}
+
+/**
+ * Abandons the game and goes back to the start menu. The board stays behind the menu.
+ * @implements {ActionForKey}
+ */
+export class Quit implements ActionForKey {
+  apply(s: State): State {
+    return transition(s, "menu");
+  }
+}
+
+/**
+ * Pauses the game. Only a game in play can be paused.
+ * @implements {ActionForKey}
+ */
+export class Pause implements ActionForKey {
+  apply(s: State): State {
+    return s.phase === "playing" ? transition(s, "paused") : s;
+  }
+}
+
+/**
+ * Resumes a paused game.
+ * @implements {ActionForKey}
+ */
+export class Resume implements ActionForKey {
+  apply(s: State): State {
+    return s.phase === "paused" ? transition(s, "playing") : s;
+  }
+}
+
+/**
+ * Toggles pause and resume of the game, going by the game's own phase.
+ * @implements {ActionForKey}
+ */
+export class TogglePauseResume implements ActionForKey {
+  apply(s: State): State {
+    return s.phase === "paused" ? new Resume().apply(s) : new Pause().apply(s);
+  }
+}
+
+/**
+ * Checks whether an action may change the game in its current phase. Game actions only apply while playing;
+ * lifecycle actions and ticks look after their own phases, and letting go of a key is always noted so that
+ * a key released while paused does not stay held.
+ * @param s - The current game state.
+ * @param action - The action to apply.
+ * @returns `true` if the action should be applied.
+ */
+const acceptsAction = (s: State, action: ActionForKey): boolean =>
+  s.phase === "playing" ||
+  action instanceof Restart || action instanceof Quit || action instanceof Pause ||
+  action instanceof Resume || action instanceof TogglePauseResume || action instanceof Tick ||
+  (s.phase !== "gameOver" && (action instanceof ReleaseSide || (action instanceof SoftDrop && !action.held))) ||
+  (s.phase === "gameOver" && isHistoryAction(action) && s.history !== null);
+
+/**
+ * Checks whether an action moves along the game's history, which a finished puzzle can still do.
+ * @param action - The action.
+ * @returns `true` for undo, redo and rewind.
+ */
+const isHistoryAction = (action: ActionForKey): boolean =>
+  action instanceof Undo || action instanceof Redo || action instanceof Rewind;
+
+/**
+ * Finds the action for a command from the key map. Live play and replays both go through here,
+ * so a replay reproduces the game exactly. Restarting and pausing are handled separately.
+ * @param command - The command.
+ * @param pressed - Whether the command's input went down or came up.
+ * @returns The action, or null if the command does nothing on this change.
+ */
+export function actionForCommand(command: Command, pressed: boolean): ActionForKey | null {
+  switch (command) {
+    case "moveLeft": return pressed ? new PressSide("left") : new ReleaseSide("left");
+    case "moveRight": return pressed ? new PressSide("right") : new ReleaseSide("right");
+    case "softDrop": return new SoftDrop(pressed);
+    case "hardDrop": return pressed ? new instantDROP() : null;
+    case "rotateClockwise": return pressed ? new Rotate(1) : null;
+    case "rotateCounterClockwise": return pressed ? new Rotate(3) : null;
+    case "rotate180": return pressed ? new Rotate(2) : null;
+    case "hold": return pressed ? new Hold() : null;
+    case "undo": return pressed ? new Undo() : null;
+    case "redo": return pressed ? new Redo() : null;
+    case "rewind": return pressed ? new Rewind() : null;
+    default: return null;
+  }
+}
+
+/**
+ * Checks whether the game acts on a command in its current state, so that replays record exactly the
+ * commands that changed the game. It must be asked before the command is applied: the command that ends
+ * a game is recorded, even though the game is over once it has been applied.
+ * @param s - The game state before the command.
+ * @param change - The command.
+ * @returns `true` if the command changes, or may change, the game.
+ */
+export function acceptsCommand(s: State, change: CommandChange): boolean {
+  const action = actionForCommand(change.command, change.pressed);
+  return action !== null && acceptsAction(s, action);
+}
+
+/**
+ * Applies an action to the state. Outside of play, only the actions the lifecycle allows change it.
+ * @param s - The current game state.
+ * @param action - The action to apply.
+ * @returns The updated game state.
+ */
+export function reduceState(s: State, action: ActionForKey): State {
+  return acceptsAction(s, action) ? action.apply(s) : s;
+}
+
+/**
+ * Rebuilds the game state at a frame of a replay by feeding its commands and ticks through the reducer.
+ * @param replay - The replay.
+ * @param frame - The frame to stop at.
+ * @param from - An earlier state of the same replay to continue from, to avoid starting over.
+ * @returns The game state at the frame.
+ */
+export function replayState(replay: Replay, frame: number, from?: { frame: number, state: State }): State {
+  const byFrame = entriesByFrame(replay);
+
+  // Apply the commands recorded on a frame, in the order they happened
+  const applyEntries = (s: State, f: number) => (byFrame.get(f) ?? [])
+    .reduce((acc, [, command, pressed]) => step(acc, { command, pressed: pressed === 1 }, 0), s);
+
+  const start = from ?? { frame: 0, state: applyEntries(createInitialState(replay.seed, replay.config), 0) };
+
+  // Tick once per frame, then apply that frame's commands
+  return Array.from({ length: Math.max(0, frame - start.frame) }, (_, i) => start.frame + i + 1)
+    .reduce((s, f) => applyEntries(step(s, null, Constants.FRAME_MS), f), start.state);
+}
+
+/**
+ * Moves the current Tetrimino down with gravity. A grounded Tetrimino locks
+ * once it has rested for the lock delay. Before play, ticks run the countdown;
+ * in the menu, while paused and once the game is over, time stands still.
+ * @implements {ActionForKey}
+ */
+export class Tick implements ActionForKey {
+  // The time since the previous tick in milliseconds is passed as a parameter
+  constructor(public readonly elapsed: number) {}
+
+  // Apply the action to the current state
+  apply(s: State): State {
+    // Count down to play; the tick that ends the countdown does not move the Tetrimino
+    if (s.phase === "countdown") {
+      const countdown = s.countdown - this.elapsed;
+      return countdown > 0 ? { ...s, countdown } : { ...transition(s, "playing"), countdown: 0 };
+    }
+    if (s.phase !== "playing") {
+      return s;
+    }
+
+    const handling = s.config.handling;
+
+    // Auto-shift a held side key once DAS has charged, at most across the whole board
+    const { input, shifts } = advanceInput(s.input, handling, this.elapsed);
+    const shift = input.direction === "left" ? new moveTetriminoLeft() : new moveTetriminoRight();
+    const shifted = Array.from({ length: Math.min(shifts, s.config.boardWidth) })
+      .reduce<State>((acc) => shift.apply(acc), { ...s, input, frame: s.frame + 1, elapsed: s.elapsed + this.elapsed });
+
+    // Gravity builds up each frame, faster while soft dropping; whole rows of it move the Tetrimino down.
+    // Without gravity, soft drop still falls as fast as it would on the first level
+    const levelGravity = gravityForLevel(s.config.gravity, s.userLevel);
+    const gravity = input.softDrop ? softDropGravity(levelGravity || gravityForLevel("guideline", 1), handling) : levelGravity;
+    const progress = shifted.gravityProgress + gravity * this.elapsed / Constants.FRAME_MS;
+    const rows = Math.floor(progress);
+
+    // Fall one row at a time, stopping on the stack
+    const fallen = Array.from({ length: rows }).reduce<State>((acc) => {
+      const movedTetrimino = { ...acc.currentTetrimino, y: acc.currentTetrimino.y + 1 };
+      return isCollisionDetected(movedTetrimino, acc.grid, piecesOf(acc)) ? acc : descendTetrimino(acc, movedTetrimino);
+    }, shifted);
+
+    // Rows fallen while soft dropping score points
+    const dropped = input.softDrop
+      ? { ...fallen, userScore: fallen.userScore + softDropPoints(fallen.currentTetrimino.y - shifted.currentTetrimino.y) }
+      : fallen;
+
+    // Check whether the Tetrimino is resting on the stack
+    if (isGrounded(dropped.currentTetrimino, dropped.grid, piecesOf(dropped))) {
+      // Run the lock delay while the Tetrimino rests on the stack
+      const lockTimer = dropped.lockTimer + this.elapsed;
+      return checkTimeLimit(this.timedGarbage(lockTimer >= s.config.lockDelay
+        ? processCollision(dropped)
+        : { ...dropped, lockTimer, gravityProgress: 0 }));
+    }
+
+    // Keep the leftover fraction of a row for the next tick
+    return checkTimeLimit(this.timedGarbage({ ...dropped, gravityProgress: progress - rows }));
+  }
+
+  /**
+   * Runs the garbage timer of modes with timed garbage, raising a row each time it runs out.
+   * @param s - The game state after the Tetrimino has moved.
+   * @returns The game state with any timed garbage risen.
+   */
+  private timedGarbage(s: State): State {
+    const rule = GAME_MODES[s.config.mode].garbage;
+    if (rule === null || rule.interval === null || s.phase !== "playing") {
+      return s;
+    }
+    const { garbage, due } = advanceGarbageTimer(s.garbage, rule, this.elapsed);
+    return riseGarbage({ ...s, garbage }, due);
+  }
+}
+
+/**
+ * Queues garbage, which rises when the next Tetrimino locks without clearing lines.
+ * @implements {ActionForKey}
+ */
+export class QueueGarbage implements ActionForKey {
+  // The number of garbage rows is passed as a parameter
+  constructor(public readonly lines: number) {}
+
+  apply(s: State): State {
+    return { ...s, garbage: queueGarbage(s.garbage, this.lines) };
+  }
+}
+
+/**
+ * Place a Tetrimino on a grid.
+ * 
+ * @param {Tetrimino} tetrimino - The Tetrimino to place on the grid.
+ * @param {Grid} grid - The grid where the Tetrimino will be placed.
+ * @param {PieceSet} pieces - The piece set the Tetrimino comes from.
+ * @returns {Grid} - A new grid with the Tetrimino placed on it.
+ */
+function placeTetrimino(tetrimino: Tetrimino, grid: Grid, pieces: PieceSet): Grid {
+  // The cell each block leaves behind, keeping the Tetrimino's kind and special block
+  const placed: FilledCell = { kind: tetrimino.kind, special: tetrimino.special };
+
+  // Duplicate the grid to avoid mutating the original
+  return tetriminoCells(tetrimino, pieces).reduce((newGrid, block) => {
+    // Update the grid with the new block
+    return newGrid.map((row, rowIndex) => {
+      // Check if the current row matches the block's y position
+      if (rowIndex === block.y) {
+        // Update the row with the new block
+        return row.map((cell, colIndex) => {
+          // Check if the current cell matches the block's x position
+          if (colIndex === block.x) {
+            // Update the cell with the new block
+            return placed;
+          }
+          // Return the cell without updating it
+          return cell;
+        });
+      }
+      // Return the row without updating it
+      return row;
+    });
+    // Initialize the grid with empty rows
+  }, grid);
+}
+
+/**
+ * Clears completed lines in the grid, setting off the special blocks in them first.
+ *
+ * @param grid - The grid containing the game state as a 2D array of cells.
+ *
+ * @returns An object containing the updated grid, the number of lines cleared, how many of the lines held garbage,
+ * the special blocks set off and how many other cells their blasts emptied.
+ */
+export function clearLines(grid: Grid): { grid: Grid, linesCleared: number, garbageCleared: number, triggers: SpecialTrigger[], blasted: number } {
+  // Function to create an empty row
+  const emptyRow = (length: number): Cell[] => Array(length).fill(null);
+
+  // Find the completed rows, and blast the cells around the special blocks in them
+  const fullRows = grid.flatMap((row, y) => row.every(cell => cell !== null) ? [y] : []);
+  const triggers = findTriggers(grid, fullRows);
+  const { grid: blastedGrid, blasted } = blastCells(grid, triggers, fullRows);
+
+  // Initialize the state
+  const initialState = { grid: [] as Grid, linesCleared: 0, garbageCleared: 0 };
+
+  //  Remove the completed rows
+  const result = blastedGrid.reduce((state, row, y) => {
+    // Check if the row is completed
+    if (fullRows.includes(y)) {
+      // Check if the row was a garbage row
+      const garbageLine = grid[y].some(cell => cell?.kind === "garbage");
+      //  Return the updated state
+      return { 
+        grid: state.grid, 
+        linesCleared: state.linesCleared + 1, 
+        garbageCleared: state.garbageCleared + (garbageLine ? 1 : 0)
+      };
+    }
+    // Return the updated state
+    return { 
+      grid: [...state.grid, row], 
+      linesCleared: state.linesCleared,
+      garbageCleared: state.garbageCleared
+    };
+  }, initialState);
+
+  // Add empty rows to the top of the grid
+  const emptyRows = Array(result.linesCleared).fill(emptyRow(grid[0].length));
+  // Return the updated grid
+  return {
+    grid: [...emptyRows, ...result.grid],
+    linesCleared: result.linesCleared,
+    garbageCleared: result.garbageCleared,
+    triggers,
+    blasted,
+  };
+}
+
+/**
+ * Generates a new Tetrimino from a seed and the piece generator.
+ * @param seed - The seed used for the random draws.
+ * @param generator - The state of the piece generator.
+ * @param config - The game's settings, which say which pieces are dealt and where they appear.
+ * @returns The generated Tetrimino, the updated generator and the seed to use for the next draw.
+ */
+export function generateANewTetrimino(seed: number, generator: GeneratorState, config: GameConfig = defaultConfig): { tetrimino: Tetrimino, seed: number, generator: GeneratorState } {
+  // Ask the generator which shape comes next, from the game's piece set
+  const dealt = nextPiece(generator, seed, piecePool(pieceSetFor(config.pieces)));
+
+  // Draw whether the piece is made of a special block, with the chances the settings give
+  const chanceDraw = nextRandom(dealt.seed);
+  const special = drawSpecial(chanceDraw.value, config.specialChances);
+
+  // Spawn the Tetrimino where the settings say, at the top of the grid and centred by default
+  return {
+    tetrimino: spawnFor(dealt.piece, special, config),
+    seed: chanceDraw.seed,
+    generator: dealt.generator,
+  };
+}
+
+/**
+ * Generates several Tetriminos in a row.
+ * @param count - How many Tetriminos to generate.
+ * @param seed - The seed used for the random draws.
+ * @param generator - The state of the piece generator.
+ * @returns The generated Tetriminos, the updated generator and the seed to use for the next draw.
+ */
+function generateTetriminos(count: number, seed: number, generator: GeneratorState, config: GameConfig): { tetriminos: Tetrimino[], seed: number, generator: GeneratorState } {
+  return Array.from({ length: count }).reduce<{ tetriminos: Tetrimino[], seed: number, generator: GeneratorState }>(
+    (acc) => {
+      const drawn = generateANewTetrimino(acc.seed, acc.generator, config);
+      return { tetriminos: [...acc.tetriminos, drawn.tetrimino], seed: drawn.seed, generator: drawn.generator };
+    },
+    { tetriminos: [], seed, generator }
+  );
+}
+
+/** Engine API */
+
+/**
+ * Starts a new game.
+ * @param config - The settings for the game; anything left out keeps its default.
+ * @param seed - The seed for the random number generator.
+ * @returns The state at the start of the game.
+ */
+export function createGame(config: Partial<GameConfig> = {}, seed: number = 0): State {
+  return createInitialState(seed, { ...defaultConfig, ...config });
+}
+
+/**
+ * Advances a game: applies a command, if there is one, then lets some time pass.
+ * Restarting draws the next game's seed from the current one, so a sequence of steps is reproducible.
+ * A restarted game counts down before play starts.
+ * @param s - The current game state.
+ * @param command - The command that started or stopped, or null if none did.
+ * @param dt - The time to let pass, in milliseconds; 0 applies the command alone.
+ * @returns The game state afterwards.
+ */
+export function step(s: State, command: CommandChange | null, dt: number): State {
+  const action = command === null ? null
+    : command.command === "restart" ? (command.pressed ? new Restart(RNG.hash(s.seed)) : null)
+    : command.command === "pause" ? (command.pressed ? new TogglePauseResume() : null)
+    : actionForCommand(command.command, command.pressed);
+  const commanded = action ? reduceState(s, action) : s;
+  return dt > 0 ? reduceState(commanded, new Tick(dt)) : commanded;
+}
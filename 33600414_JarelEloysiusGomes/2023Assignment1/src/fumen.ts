@@ -0,0 +1,175 @@
+/** Fumen: reading and writing boards in the v115 encoding of the fumen board editor, for its first page */
+
+import { BoardChars, BoardSetup } from "./boardText";
+
+/**
+ * The encoding's constants: its base-64 digits, the field size, and the characters comments are written with.
+ */
+const Fumen = {
+  PREFIX: "v115@",
+  DIGITS: "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/",
+  WIDTH: 10,
+  // The shown rows only
+  HEIGHT: 23,
+  // Every cell of the field: the shown rows, plus the garbage row under the floor
+  BLOCKS: 240,
+  COMMENT_CHARS: " !\"#$%&'()*+,-./0123456789:;<=>?@ABCDEFGHIJKLMNOPQRSTUVWXYZ[\\]^_`abcdefghijklmnopqrstuvwxyz{|}~",
+  COMMENT_BASE: 96,
+  // The URL form breaks the data with a "?" after the first 42 characters and every 47 after that
+  FIRST_BREAK: 42,
+  BREAK: 47,
+} as const;
+
+/**
+ * The pieces by their number in the encoding; 0 is an empty cell and 8 a garbage cell.
+ */
+const FUMEN_PIECES: readonly string[] = [BoardChars.EMPTY, "I", "L", "O", "Z", "T", "J", "S", BoardChars.GARBAGE];
+
+/**
+ * Reads a number written as little-endian base-64 digits.
+ * @param values - The values of the digits.
+ * @param at - Where the number starts.
+ * @param digits - How many digits it has.
+ * @returns The number, or `null` past the end.
+ */
+const readNumber = (values: readonly number[], at: number, digits: number): number | null =>
+  at + digits <= values.length ? values.slice(at, at + digits).reduceRight((total, value) => total * 64 + value, 0) : null;
+
+/**
+ * Writes a number as little-endian base-64 digits.
+ * @param value - The number.
+ * @param digits - How many digits to write.
+ * @returns The digits.
+ */
+const digitsOf = (value: number, digits: number): string =>
+  Array.from({ length: digits }, (_, i) => Fumen.DIGITS[Math.floor(value / 64 ** i) % 64]).join("");
+
+/**
+ * Escapes a comment the way fumen does before writing it, with JavaScript's old `escape`: letters, digits and
+ * `@*_+-./` stay as they are, other characters become `%XX`, or `%uXXXX` past the first 256.
+ * @param text - The comment.
+ * @returns The escaped comment.
+ */
+const escapeComment = (text: string): string =>
+  text.split("").map(char => {
+    const code = char.charCodeAt(0);
+    return /^[A-Za-z0-9@*_+\-./]$/.test(char) ? char
+      : code < 256 ? `%${code.toString(16).toUpperCase().padStart(2, "0")}`
+      : `%u${code.toString(16).toUpperCase().padStart(4, "0")}`;
+  }).join("");
+
+/**
+ * Reverses `escapeComment`.
+ * @param text - The escaped comment.
+ * @returns The comment.
+ */
+const unescapeComment = (text: string): string =>
+  text.replace(/%u([0-9A-Fa-f]{4})|%([0-9A-Fa-f]{2})/g, (_, wide: string | undefined, narrow: string | undefined) =>
+    String.fromCharCode(parseInt(wide ?? narrow ?? "", 16)));
+
+/**
+ * Reads the quiz comment fumen uses for puzzles, e.g. "#Q=[O](T)IL" for O held, T in play and I and L next.
+ * @param comment - The page's comment.
+ * @returns The queue and held piece, or none of either if the comment is not a quiz.
+ */
+const quizOf = (comment: string): Pick<BoardSetup, "queue" | "hold"> => {
+  const match = /^#Q=\[([A-Z]?)\]\(([A-Z]?)\)([A-Z]*)/.exec(comment);
+  return match
+    ? { queue: [...match[2], ...match[3]], hold: match[1] || null }
+    : { queue: [], hold: null };
+};
+
+/**
+ * Reads the first page of a fumen, taking the queue and held piece from its quiz comment if it has one.
+ * @param text - The fumen, e.g. "v115@vhAAgH", with or without the "?" breaks of its URL form.
+ * @returns The board setup, or `null` if the text is not a v115 fumen.
+ */
+export const decodeFumen = (text: string): BoardSetup | null => {
+  const trimmed = text.trim();
+  const start = trimmed.indexOf(Fumen.PREFIX);
+  if (start === -1) {
+    return null;
+  }
+  const values = [...trimmed.slice(start + Fumen.PREFIX.length).replace(/\?/g, "")].map(char => Fumen.DIGITS.indexOf(char));
+  if (values.includes(-1)) {
+    return null;
+  }
+
+  // The field is written as runs of cells with the same change from the (empty) page before
+  const readField = (at: number, field: readonly number[]): { field: readonly number[], at: number } | null => {
+    if (field.length === Fumen.BLOCKS) {
+      return { field, at };
+    }
+    const run = readNumber(values, at, 2);
+    const value = run === null ? -1 : Math.floor(run / Fumen.BLOCKS) - 8;
+    const count = run === null ? 0 : run % Fumen.BLOCKS + 1;
+    if (value < 0 || value >= FUMEN_PIECES.length || field.length + count > Fumen.BLOCKS) {
+      return null;
+    }
+    // A field with no changes at all is followed by a digit counting the pages after it that repeat it
+    const repeats = run === 8 * Fumen.BLOCKS + Fumen.BLOCKS - 1 ? 1 : 0;
+    return readField(at + 2 + repeats, [...field, ...Array<number>(count).fill(value)]);
+  };
+  const page = readField(0, []);
+
+  // The page's action: only whether a comment follows matters here
+  const action = page && readNumber(values, page.at, 3);
+  if (!page || action === null) {
+    return null;
+  }
+  const hasComment = Math.floor(action / (8 * 4 * Fumen.BLOCKS * 8)) % 2 === 1;
+  const length = hasComment ? readNumber(values, page.at + 3, 2) : 0;
+  const groups = Array.from({ length: Math.ceil((length ?? 0) / 4) }, (_, group) => readNumber(values, page.at + 5 + group * 5, 5));
+  if (length === null || groups.some(group => group === null)) {
+    return null;
+  }
+  const escaped = groups.flatMap(group => Array.from({ length: 4 }, (_, i) =>
+    Fumen.COMMENT_CHARS[Math.floor(group! / Fumen.COMMENT_BASE ** i) % Fumen.COMMENT_BASE])).join("").slice(0, length);
+
+  // The shown rows, leaving out the empty ones at the top
+  const rows = Array.from({ length: Fumen.HEIGHT }, (_, y) =>
+    page.field.slice(y * Fumen.WIDTH, (y + 1) * Fumen.WIDTH).map(value => FUMEN_PIECES[value]).join(""));
+  const top = rows.findIndex(row => [...row].some(char => char !== BoardChars.EMPTY));
+  return { rows: top === -1 ? [] : rows.slice(top), ...quizOf(unescapeComment(escaped)) };
+};
+
+/**
+ * Writes a board setup as a one-page fumen, with the queue and held piece, if any, in a quiz comment.
+ * @param setup - The board setup.
+ * @returns The fumen, or `null` if the board is not 10 wide or has more rows than fumen shows.
+ */
+export const encodeFumen = (setup: BoardSetup): string | null => {
+  if (setup.rows.length > Fumen.HEIGHT || setup.rows.some(row => row.length !== Fumen.WIDTH)) {
+    return null;
+  }
+
+  // The shown rows sit on the floor, with the garbage row under them left empty
+  const shown = [...Array<string>(Fumen.HEIGHT - setup.rows.length).fill(BoardChars.EMPTY.repeat(Fumen.WIDTH)), ...setup.rows];
+  const field = [...shown.join(""), ...BoardChars.EMPTY.repeat(Fumen.WIDTH)].map(char => {
+    const value = FUMEN_PIECES.indexOf(char);
+    // Pieces fumen does not know are written as garbage
+    return value === -1 ? FUMEN_PIECES.indexOf(BoardChars.GARBAGE) : value;
+  });
+
+  // Runs of cells with the same value, each written as its change from an empty page and its length
+  const runs = field.reduce<{ value: number, count: number }[]>((acc, value) => {
+    const last = acc[acc.length - 1];
+    return last?.value === value ? [...acc.slice(0, -1), { value, count: last.count + 1 }] : [...acc, { value, count: 1 }];
+  }, []);
+  const fieldData = runs.map(({ value, count }) => digitsOf((value + 8) * Fumen.BLOCKS + count - 1, 2)).join("") +
+    // An empty field says that no pages after it repeat it
+    (runs.length === 1 && runs[0].value === 0 ? digitsOf(0, 1) : "");
+
+  // No piece in play and the colours on, followed by a quiz comment if there are pieces to play
+  const quiz = setup.queue.length > 0 || setup.hold !== null;
+  const comment = escapeComment(`#Q=[${setup.hold ?? ""}](${setup.queue[0] ?? ""})${setup.queue.slice(1).join("")}`);
+  const action = digitsOf(((quiz ? 1 : 0) * 2 + 1) * 2 * 2 * Fumen.BLOCKS * 4 * 8, 3);
+  const commentData = !quiz ? "" : digitsOf(comment.length, 2) + Array.from({ length: Math.ceil(comment.length / 4) }, (_, group) =>
+    digitsOf([...comment.slice(group * 4, group * 4 + 4)].reduce(
+      (total, char, i) => total + Fumen.COMMENT_CHARS.indexOf(char) * Fumen.COMMENT_BASE ** i, 0), 5)).join("");
+
+  // Break the data the way fumen's own URLs do
+  const data = fieldData + action + commentData;
+  const breaks = [data.slice(0, Fumen.FIRST_BREAK), ...(data.slice(Fumen.FIRST_BREAK).match(new RegExp(`.{1,${Fumen.BREAK}}`, "g")) ?? [])];
+  return Fumen.PREFIX + breaks.join("?");
+};
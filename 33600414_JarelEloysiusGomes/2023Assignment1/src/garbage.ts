@@ -0,0 +1,156 @@
+/** Garbage: rows of junk cells with a hole, pushed up from the bottom of the board */
+
+import { nextRandom, RNG } from "./util";
+import type { Cell, Grid } from "./types";
+
+/**
+ * How a mode hands out garbage.
+ *
+ * @param rows - How many garbage rows are on the board at the start; cleared rows are topped back up to this many.
+ * @param total - How many garbage rows the mode deals in all, clearing every one of them wins; `null` for no end.
+ * @param interval - The milliseconds before the first timed garbage row, or `null` for no timed garbage.
+ * @param speedUp - What the interval is multiplied by after each timed row, so garbage arrives faster and faster.
+ * @param minInterval - The interval never drops below this many milliseconds.
+ */
+export type GarbageRule = {
+  rows: number,
+  total: number | null,
+  interval: number | null,
+  speedUp: number,
+  minInterval: number,
+};
+
+/**
+ * The garbage carried between frames.
+ *
+ * @param pending - Batches of garbage rows waiting to rise when the next piece locks without clearing, oldest first.
+ * @param timer - The milliseconds left until the next timed garbage row.
+ * @param interval - The milliseconds between timed garbage rows, for the next row.
+ * @param dealt - How many garbage rows have risen onto the board.
+ * @param cleared - How many garbage rows have been cleared.
+ * @param sent - How many garbage rows this board has sent to its opponent, after cancelling its own incoming garbage.
+ * @param seed - The seed for drawing hole columns, kept apart from the pieces' so garbage never changes the pieces.
+ */
+export type GarbageState = {
+  pending: readonly number[],
+  timer: number,
+  interval: number,
+  dealt: number,
+  cleared: number,
+  sent: number,
+  seed: number,
+};
+
+/**
+ * Mixed into the game seed to start the garbage seed, so the holes do not follow the pieces.
+ */
+const GARBAGE_SEED_SALT = 0x5eed;
+
+/**
+ * The garbage state at the start of a game.
+ * @param seed - The game's seed.
+ * @param rule - The mode's garbage rule, or `null` if the mode deals none.
+ * @returns The garbage state, with the timer set for the first timed row.
+ */
+export const initialGarbage = (seed: number, rule: GarbageRule | null): GarbageState => ({
+  pending: [],
+  timer: rule?.interval ?? Infinity,
+  interval: rule?.interval ?? Infinity,
+  dealt: 0,
+  cleared: 0,
+  sent: 0,
+  seed: RNG.hash(seed ^ GARBAGE_SEED_SALT),
+});
+
+/**
+ * A row of garbage: every cell filled except the hole.
+ * @param width - The width of the board.
+ * @param hole - The column left empty.
+ * @returns The garbage row.
+ */
+export const garbageRow = (width: number, hole: number): Cell[] =>
+  Array.from({ length: width }, (_, x) => x === hole ? null : { kind: "garbage", special: null });
+
+/**
+ * Draws garbage rows. The rows of a batch share one hole so that it can be dug out in one go;
+ * messy garbage moves the hole on every row instead, never to the column it was just in.
+ * @param garbage - The garbage state.
+ * @param lines - How many rows to draw.
+ * @param width - The width of the board.
+ * @param messy - Whether every row gets its own hole.
+ * @returns The rows, top first, and the garbage state with its seed moved on.
+ */
+export const drawGarbage = (garbage: GarbageState, lines: number, width: number, messy: boolean): { rows: Cell[][], garbage: GarbageState } => {
+  const drawn = Array.from({ length: lines }).reduce<{ holes: number[], seed: number }>((acc, _, i) => {
+    // Tidy garbage keeps the batch's first hole
+    if (i > 0 && !messy) {
+      return { ...acc, holes: [...acc.holes, acc.holes[0]] };
+    }
+    // After the first row, messy garbage picks from every column but the last hole
+    const { value, seed } = nextRandom(acc.seed);
+    const previous = acc.holes[acc.holes.length - 1];
+    const column = previous === undefined ? Math.floor(value * width) : Math.floor(value * (width - 1));
+    const hole = previous !== undefined && column >= previous ? column + 1 : column;
+    return { holes: [...acc.holes, hole], seed };
+  }, { holes: [], seed: garbage.seed });
+
+  return {
+    rows: drawn.holes.map(hole => garbageRow(width, hole)).reverse(),
+    garbage: { ...garbage, seed: drawn.seed, dealt: garbage.dealt + lines },
+  };
+};
+
+/**
+ * Pushes rows up from the bottom of the grid. The rows pushed off the top are lost.
+ * @param grid - The grid.
+ * @param rows - The rows to add at the bottom, top first.
+ * @returns The raised grid, and whether any filled cell was pushed off the top.
+ */
+export const raiseGrid = (grid: Grid, rows: Cell[][]): { grid: Grid, overflow: boolean } => ({
+  grid: [...grid, ...rows].slice(rows.length),
+  overflow: grid.slice(0, rows.length).some(row => row.some(cell => cell !== null)),
+});
+
+/**
+ * Counts the rows of a grid that hold garbage.
+ * @param grid - The grid.
+ * @returns How many rows have at least one garbage cell.
+ */
+export const garbageRowCount = (grid: Grid): number =>
+  grid.filter(row => row.some(cell => cell?.kind === "garbage")).length;
+
+/**
+ * Queues a batch of garbage to rise when the next piece locks without clearing lines.
+ * @param garbage - The garbage state.
+ * @param lines - How many rows the batch holds.
+ * @returns The garbage state with the batch queued.
+ */
+export const queueGarbage = (garbage: GarbageState, lines: number): GarbageState =>
+  lines > 0 ? { ...garbage, pending: [...garbage.pending, lines] } : garbage;
+
+/**
+ * Runs the garbage timer.
+ * @param garbage - The garbage state.
+ * @param rule - The mode's garbage rule.
+ * @param elapsed - The milliseconds since the last frame.
+ * @returns The garbage state, and how many timed rows are due to rise now.
+ */
+export const advanceGarbageTimer = (garbage: GarbageState, rule: GarbageRule, elapsed: number): { garbage: GarbageState, due: number } => {
+  const timer = garbage.timer - elapsed;
+  if (timer > 0) {
+    return { garbage: { ...garbage, timer }, due: 0 };
+  }
+  // Each timed row brings the next one sooner, down to the minimum interval
+  const interval = Math.max(rule.minInterval, garbage.interval * rule.speedUp);
+  return { garbage: { ...garbage, timer: timer + interval, interval }, due: 1 };
+};
+
+/**
+ * Works out how many rows are needed to top the board back up to the mode's garbage height.
+ * @param garbage - The garbage state.
+ * @param rule - The mode's garbage rule.
+ * @param onBoard - How many garbage rows are on the board.
+ * @returns How many rows to add.
+ */
+export const garbageRefill = (garbage: GarbageState, rule: GarbageRule, onBoard: number): number =>
+  Math.max(0, Math.min(rule.rows - onBoard, (rule.total ?? Infinity) - garbage.dealt));
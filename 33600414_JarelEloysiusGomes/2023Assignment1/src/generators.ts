@@ -0,0 +1,166 @@
+/** Piece generators (randomizers) */
+
+import type { PieceKind } from "./types";
+import { nextRandom } from "./util";
+
+/**
+ * The names of the available piece generators.
+ */
+export type GeneratorName = "sevenBag" | "uniform" | "history4";
+
+/**
+ * The state a piece generator carries between draws. It lives in the game
+ * state so that the piece sequence is a pure function of the seed.
+ *
+ * @param name - Which generator strategy to use.
+ * @param bag - Pieces left in the current bag (7-bag only).
+ * @param history - The most recently dealt pieces, oldest first, empty before the first draw (history-of-4 only).
+ */
+export type GeneratorState = {
+  name: GeneratorName,
+  bag: PieceKind[],
+  history: PieceKind[],
+};
+
+/**
+ * A piece generator deals the next piece from its own state and a seed.
+ */
+type PieceGenerator = {
+  next: (g: GeneratorState, seed: number, kinds: readonly PieceKind[]) =>
+    { piece: PieceKind, generator: GeneratorState, seed: number }
+};
+
+/**
+ * Picks one piece uniformly at random.
+ *
+ * @param kinds - The pieces to pick from.
+ * @param seed - The seed used for the random draw.
+ * @returns The picked piece and the seed to use for the next draw.
+ */
+const pickUniform = (kinds: readonly PieceKind[], seed: number): { piece: PieceKind, seed: number } => {
+  const draw = nextRandom(seed);
+  return { piece: kinds[Math.floor(draw.value * kinds.length)], seed: draw.seed };
+};
+
+/**
+ * Shuffles pieces with a seeded Fisher-Yates shuffle.
+ *
+ * @param kinds - The pieces to shuffle.
+ * @param seed - The seed used for the random draws.
+ * @returns The shuffled pieces and the seed to use for the next draw.
+ */
+const shuffle = (kinds: readonly PieceKind[], seed: number): { pieces: PieceKind[], seed: number } =>
+  kinds.reduceRight(
+    (acc, _, i) => {
+      // Swap position i with a random position at or before it
+      const draw = nextRandom(acc.seed);
+      const j = Math.floor(draw.value * (i + 1));
+      const pieces = acc.pieces.map((piece, k) => k === i ? acc.pieces[j] : k === j ? acc.pieces[i] : piece);
+      return { pieces, seed: draw.seed };
+    },
+    { pieces: [...kinds], seed }
+  );
+
+/**
+ * Deals every piece once per bag, in a random order, so no piece is ever
+ * more than 12 draws away.
+ * @implements {PieceGenerator}
+ */
+class SevenBag implements PieceGenerator {
+  next(g: GeneratorState, seed: number, kinds: readonly PieceKind[]) {
+    // Refill the bag with a fresh shuffle once it is empty
+    const { pieces, seed: nextSeed } = g.bag.length > 0
+      ? { pieces: g.bag, seed }
+      : shuffle(kinds, seed);
+
+    const [piece, ...bag] = pieces;
+    return { piece, generator: { ...g, bag }, seed: nextSeed };
+  }
+}
+
+/**
+ * Picks every piece independently, so long droughts are possible.
+ * @implements {PieceGenerator}
+ */
+class Uniform implements PieceGenerator {
+  next(g: GeneratorState, seed: number, kinds: readonly PieceKind[]) {
+    const { piece, seed: nextSeed } = pickUniform(kinds, seed);
+    return { piece, generator: g, seed: nextSeed };
+  }
+}
+
+/**
+ * Rerolls a piece that is in the last four dealt pieces, up to a fixed
+ * number of times. The first piece is never an S, Z or O.
+ * @implements {PieceGenerator}
+ */
+class History4 implements PieceGenerator {
+  // The number of draws made before giving up and keeping the last one
+  private static readonly ROLLS = 6;
+
+  // The history a new game starts with
+  private static readonly INITIAL_HISTORY: PieceKind[] = ["Z", "S", "S", "Z"];
+
+  next(g: GeneratorState, seed: number, kinds: readonly PieceKind[]) {
+    // Only the very first piece of a game is restricted
+    const isFirst = g.history.length === 0;
+    const history = isFirst ? History4.INITIAL_HISTORY : g.history;
+    const allowed = isFirst ? kinds.filter(kind => !["S", "Z", "O"].includes(kind)) : kinds;
+
+    // Draw until the piece is not in the history or the rolls run out
+    const roll = (rollsLeft: number, seed: number): { piece: PieceKind, seed: number } => {
+      const draw = pickUniform(allowed.length > 0 ? allowed : kinds, seed);
+      return rollsLeft <= 1 || !history.includes(draw.piece)
+        ? draw
+        : roll(rollsLeft - 1, draw.seed);
+    };
+    const { piece, seed: nextSeed } = roll(History4.ROLLS, seed);
+
+    return {
+      piece,
+      generator: { ...g, history: [...history.slice(1), piece] },
+      seed: nextSeed,
+    };
+  }
+}
+
+/**
+ * The available piece generators, looked up by name.
+ */
+const generators: Record<GeneratorName, PieceGenerator> = {
+  sevenBag: new SevenBag(),
+  uniform: new Uniform(),
+  history4: new History4(),
+};
+
+/**
+ * Creates the state of a generator at the start of a game.
+ *
+ * @param name - The generator strategy to use.
+ * @returns A fresh generator state.
+ */
+export const createGenerator = (name: GeneratorName): GeneratorState => ({
+  name,
+  bag: [],
+  history: [],
+});
+
+/**
+ * Deals the next piece from a generator.
+ *
+ * @param g - The generator state.
+ * @param seed - The seed used for the random draws.
+ * @param kinds - The pieces the generator deals from.
+ * @returns The dealt piece, the updated generator state and the seed to use for the next draw.
+ */
+export const nextPiece = (g: GeneratorState, seed: number, kinds: readonly PieceKind[]) =>
+  generators[g.name].next(g, seed, kinds);
+
+/**
+ * Checks whether a name refers to a known generator.
+ *
+ * @param name - The name to check.
+ * @returns `true` if there is a generator with that name.
+ */
+export const isGeneratorName = (name: string): name is GeneratorName =>
+  Object.keys(generators).includes(name);
@@ -0,0 +1,84 @@
+/** Gravity curves: how fast pieces fall at each level */
+
+/**
+ * A named gravity curve, or a custom table of gravity per level starting at level 1.
+ * Gravity is measured in G, the rows a piece falls each frame; the last entry covers every higher level.
+ * With gravity "off", pieces only move down when dropped, for practice.
+ */
+export type GravityCurve = "guideline" | "nes" | "off" | readonly number[];
+
+/**
+ * Frames per second that gravity is measured against.
+ */
+export const FRAMES_PER_SECOND = 60;
+
+/**
+ * 20G: the piece falls to the floor on the frame it appears.
+ */
+export const MAX_GRAVITY = 20;
+
+/**
+ * The level from which the guideline curve drops pieces instantly.
+ */
+const GUIDELINE_20G_LEVEL = 20;
+
+/**
+ * Frames per row on the NES, indexed by level starting at level 1 (NES level 0).
+ */
+const NES_FRAMES_PER_ROW = [
+  48, 43, 38, 33, 28, 23, 18, 13, 8, 6,
+  5, 5, 5, 4, 4, 4, 3, 3, 3,
+  2, 2, 2, 2, 2, 2, 2, 2, 2, 2,
+  1,
+] as const;
+
+/**
+ * The guideline curve: (0.8 - (level - 1) * 0.007) ^ (level - 1) seconds per row.
+ *
+ * @param level - The level, from 1.
+ * @returns The gravity in G.
+ */
+const guidelineGravity = (level: number): number =>
+  level >= GUIDELINE_20G_LEVEL
+    ? MAX_GRAVITY
+    : Math.min(MAX_GRAVITY, 1 / (Math.pow(0.8 - (level - 1) * 0.007, level - 1) * FRAMES_PER_SECOND));
+
+/**
+ * Looks up the gravity for a level.
+ *
+ * @param curve - The gravity curve in use.
+ * @param level - The level, from 1.
+ * @returns The rows a piece falls each frame, up to 20G. Values below 1 fall less than a row per frame.
+ */
+export const gravityForLevel = (curve: GravityCurve, level: number): number => {
+  if (curve === "guideline") {
+    return guidelineGravity(level);
+  }
+  if (curve === "off") {
+    return 0;
+  }
+  // Levels past the end of a table keep the last entry
+  const table = curve === "nes" ? NES_FRAMES_PER_ROW.map(frames => 1 / frames) : curve;
+  const index = Math.max(0, Math.min(level, table.length) - 1);
+  return Math.min(MAX_GRAVITY, table[index]);
+};
+
+/**
+ * Works out the level from the lines cleared so far.
+ *
+ * @param startLevel - The level the game started on.
+ * @param lines - The lines cleared so far.
+ * @param linesPerLevel - How many lines advance one level.
+ * @returns The current level.
+ */
+export const levelForLines = (startLevel: number, lines: number, linesPerLevel: number): number =>
+  startLevel + Math.floor(lines / linesPerLevel);
+
+/**
+ * Checks whether a string names a built-in gravity curve.
+ *
+ * @param name - The name to check.
+ * @returns `true` if it is "guideline", "nes" or "off".
+ */
+export const isGravityCurveName = (name: string): name is "guideline" | "nes" | "off" =>
+  name === "guideline" || name === "nes" || name === "off";
@@ -0,0 +1,128 @@
+/** Handling: Delayed Auto Shift, auto-repeat and soft drop, independent of DOM events */
+
+import { MAX_GRAVITY } from "./gravity";
+
+/**
+ * A player's handling settings.
+ *
+ * @param das - Delayed Auto Shift: how long, in milliseconds, a side key is held before it starts repeating.
+ * @param arr - Auto Repeat Rate: milliseconds between repeated shifts; 0 shifts straight to the wall.
+ * @param sdf - Soft Drop Factor: how many times gravity soft dropping moves at; `Infinity` drops straight down.
+ */
+export type Handling = {
+  das: number,
+  arr: number,
+  sdf: number,
+};
+
+/**
+ * The handling used when a player does not set their own.
+ */
+export const defaultHandling: Handling = { das: 167, arr: 33, sdf: 20 };
+
+/**
+ * A side a piece can be shifted towards.
+ */
+export type Side = "left" | "right";
+
+/**
+ * Which movement keys are held, and for how long.
+ *
+ * @param left - Whether the left key is held.
+ * @param right - Whether the right key is held.
+ * @param direction - The side being shifted towards; the most recently pressed key wins.
+ * @param heldFor - How long, in milliseconds, the key for `direction` has been held.
+ * @param softDrop - Whether the soft drop key is held.
+ */
+export type InputState = {
+  left: boolean,
+  right: boolean,
+  direction: Side | null,
+  heldFor: number,
+  softDrop: boolean,
+};
+
+/**
+ * No keys held.
+ */
+export const initialInput: InputState = { left: false, right: false, direction: null, heldFor: 0, softDrop: false };
+
+/**
+ * Presses a side key. The new key takes over the direction and starts charging DAS.
+ *
+ * @param input - The input before the press.
+ * @param side - The side pressed.
+ * @returns The input after the press.
+ */
+export const pressSide = (input: InputState, side: Side): InputState =>
+  ({ ...input, [side]: true, direction: side, heldFor: 0 });
+
+/**
+ * Releases a side key. If the other side key is still held, it takes over and charges DAS from the start.
+ *
+ * @param input - The input before the release.
+ * @param side - The side released.
+ * @returns The input after the release.
+ */
+export const releaseSide = (input: InputState, side: Side): InputState => {
+  const other: Side = side === "left" ? "right" : "left";
+  const released = { ...input, [side]: false };
+  return input.direction !== side ? released
+    : released[other] ? { ...released, direction: other, heldFor: 0 }
+    : { ...released, direction: null, heldFor: 0 };
+};
+
+/**
+ * Presses or releases the soft drop key.
+ *
+ * @param input - The input before the change.
+ * @param held - Whether the key is now held.
+ * @returns The input after the change.
+ */
+export const setSoftDrop = (input: InputState, held: boolean): InputState => ({ ...input, softDrop: held });
+
+/**
+ * How many automatic shifts happen in the first `heldFor` milliseconds of holding a key.
+ * The first happens once DAS has charged, then one every ARR.
+ *
+ * @returns The number of shifts, or `Infinity` once DAS has charged with an ARR of 0.
+ */
+const shiftsWithin = (heldFor: number, handling: Handling): number =>
+  heldFor < handling.das ? 0
+    : handling.arr === 0 ? Infinity
+    : Math.floor((heldFor - handling.das) / handling.arr) + 1;
+
+/**
+ * Advances the held keys by some time.
+ *
+ * @param input - The input before the time passes.
+ * @param handling - The player's handling settings.
+ * @param elapsed - The time passed in milliseconds.
+ * @returns The input afterwards, and how many cells to shift towards `input.direction` (possibly `Infinity`).
+ */
+export const advanceInput = (
+  input: InputState,
+  handling: Handling,
+  elapsed: number
+): { input: InputState, shifts: number } => {
+  if (input.direction === null) {
+    return { input, shifts: 0 };
+  }
+  const heldFor = input.heldFor + elapsed;
+  const before = shiftsWithin(input.heldFor, handling);
+  const after = shiftsWithin(heldFor, handling);
+  return {
+    input: { ...input, heldFor },
+    shifts: after === Infinity ? Infinity : after - before,
+  };
+};
+
+/**
+ * The gravity while soft dropping.
+ *
+ * @param gravity - The gravity for the level, in G.
+ * @param handling - The player's handling settings.
+ * @returns The soft drop gravity, up to 20G.
+ */
+export const softDropGravity = (gravity: number, handling: Handling): number =>
+  Math.min(MAX_GRAVITY, gravity * handling.sdf);
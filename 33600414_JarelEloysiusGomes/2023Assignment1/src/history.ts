@@ -0,0 +1,78 @@
+/** History: a bounded timeline of earlier states, stepped back and forth through for undo and redo */
+
+/**
+ * A timeline of states, with the one in use between those before and after it.
+ *
+ * @param past - The earlier states, oldest first. Only the most recent ones are kept.
+ * @param present - The state in use.
+ * @param future - The states stepped back from, nearest first, until something new is recorded.
+ */
+export type History<T> = {
+  past: readonly T[],
+  present: T,
+  future: readonly T[],
+};
+
+/**
+ * Starts a timeline.
+ * @param present - The first state.
+ * @returns The timeline, with nothing to step back or forward to.
+ */
+export const startHistory = <T>(present: T): History<T> => ({ past: [], present, future: [] });
+
+/**
+ * Moves the timeline on to a new state, forgetting the states stepped back from.
+ * @param history - The timeline.
+ * @param next - The new state.
+ * @param limit - How many earlier states to keep; the oldest ones go first.
+ * @returns The timeline with the new state in use.
+ */
+export const recordHistory = <T>(history: History<T>, next: T, limit: number): History<T> => ({
+  past: [...history.past, history.present].slice(-limit),
+  present: next,
+  future: [],
+});
+
+/**
+ * Lists the timeline's states from oldest to newest.
+ * @param history - The timeline.
+ * @returns Every state, the one in use at the index given by `historyPosition`.
+ */
+export const historyStates = <T>(history: History<T>): readonly T[] =>
+  [...history.past, history.present, ...history.future];
+
+/**
+ * Gets where the state in use sits on the timeline.
+ * @param history - The timeline.
+ * @returns Its index, from 0 for the oldest state.
+ */
+export const historyPosition = <T>(history: History<T>): number => history.past.length;
+
+/**
+ * Moves along the timeline to another state.
+ * @param history - The timeline.
+ * @param position - The index of the state, from 0 for the oldest.
+ * @returns The timeline with that state in use, or `null` if there is no state there.
+ */
+export const jumpHistory = <T>(history: History<T>, position: number): History<T> | null => {
+  const states = historyStates(history);
+  return Number.isInteger(position) && position >= 0 && position < states.length
+    ? { past: states.slice(0, position), present: states[position], future: states.slice(position + 1) }
+    : null;
+};
+
+/**
+ * Steps back to the state before the one in use.
+ * @param history - The timeline.
+ * @returns The timeline a step back, or `null` if there is nothing earlier.
+ */
+export const undoHistory = <T>(history: History<T>): History<T> | null =>
+  jumpHistory(history, historyPosition(history) - 1);
+
+/**
+ * Steps forward again to the state after the one in use.
+ * @param history - The timeline.
+ * @returns The timeline a step forward, or `null` if nothing was stepped back from.
+ */
+export const redoHistory = <T>(history: History<T>): History<T> | null =>
+  jumpHistory(history, historyPosition(history) + 1);
@@ -0,0 +1,147 @@
+/** Leaderboards: the best games of each mode, kept in storage between sessions */
+
+/**
+ * A game on a leaderboard.
+ *
+ * @param name - The player's name.
+ * @param score - The final score.
+ * @param lines - The lines cleared.
+ * @param level - The level reached.
+ * @param duration - How long the game lasted, in milliseconds.
+ * @param date - When the game ended, as an ISO 8601 string.
+ */
+export type LeaderboardEntry = {
+  name: string,
+  score: number,
+  lines: number,
+  level: number,
+  duration: number,
+  date: string,
+};
+
+/**
+ * The leaderboard of each game mode, best game first.
+ */
+export type Leaderboards = Readonly<Record<string, readonly LeaderboardEntry[]>>;
+
+/**
+ * How a leaderboard orders its games: by highest score, or by fastest time.
+ */
+export type Ranking = "score" | "time";
+
+/**
+ * How many games each leaderboard keeps.
+ */
+export const LEADERBOARD_SIZE = 10;
+
+/**
+ * Where leaderboards are stored unless told otherwise.
+ */
+export const LEADERBOARD_STORAGE_KEY = "tetris.leaderboards";
+
+/**
+ * Gets the leaderboard for a mode.
+ *
+ * @param leaderboards - Every leaderboard.
+ * @param mode - The game mode.
+ * @returns The mode's entries, best first; empty if nobody has played it.
+ */
+export const leaderboardFor = (leaderboards: Leaderboards, mode: string): readonly LeaderboardEntry[] =>
+  leaderboards[mode] ?? [];
+
+/**
+ * The best game on a mode's leaderboard.
+ *
+ * @param leaderboards - Every leaderboard.
+ * @param mode - The game mode.
+ * @returns The top entry, or `null` if the leaderboard is empty.
+ */
+export const bestEntry = (leaderboards: Leaderboards, mode: string): LeaderboardEntry | null =>
+  leaderboardFor(leaderboards, mode)[0] ?? null;
+
+/**
+ * Compares two games for a leaderboard: negative if `a` ranks above `b`.
+ */
+const compareEntries = (rankBy: Ranking) => (a: Pick<LeaderboardEntry, "score" | "duration">, b: Pick<LeaderboardEntry, "score" | "duration">): number =>
+  rankBy === "time" ? a.duration - b.duration : b.score - a.score;
+
+/**
+ * Checks whether a game earns a place on a mode's leaderboard.
+ *
+ * @param leaderboards - Every leaderboard.
+ * @param mode - The game mode.
+ * @param entry - The game's score and duration.
+ * @param rankBy - How the mode's leaderboard is ordered.
+ * @returns `true` if the game would be kept.
+ */
+export const isRecord = (
+  leaderboards: Leaderboards,
+  mode: string,
+  entry: Pick<LeaderboardEntry, "score" | "duration">,
+  rankBy: Ranking = "score"
+): boolean => {
+  const entries = leaderboardFor(leaderboards, mode);
+  const counts = rankBy === "time" ? entry.duration > 0 : entry.score > 0;
+  return counts && (entries.length < LEADERBOARD_SIZE || compareEntries(rankBy)(entry, entries[entries.length - 1]) < 0);
+};
+
+/**
+ * Adds a game to a mode's leaderboard. Earlier games stay ahead of later ones that rank the same,
+ * and only the best games are kept.
+ *
+ * @param leaderboards - Every leaderboard.
+ * @param mode - The game mode.
+ * @param entry - The game to add.
+ * @param rankBy - How the mode's leaderboard is ordered.
+ * @returns The leaderboards with the game added.
+ */
+export const addEntry = (leaderboards: Leaderboards, mode: string, entry: LeaderboardEntry, rankBy: Ranking = "score"): Leaderboards => ({
+  ...leaderboards,
+  [mode]: [...leaderboardFor(leaderboards, mode), entry]
+    .sort(compareEntries(rankBy)) // Array.prototype.sort is stable, so ties keep their order
+    .slice(0, LEADERBOARD_SIZE),
+});
+
+/**
+ * Checks that a stored value looks like a leaderboard entry.
+ */
+const isEntry = (value: unknown): value is LeaderboardEntry => {
+  const entry = value as LeaderboardEntry;
+  return typeof entry === "object" && entry !== null &&
+    typeof entry.name === "string" && typeof entry.date === "string" &&
+    [entry.score, entry.lines, entry.level, entry.duration].every(Number.isFinite);
+};
+
+/**
+ * Reads the leaderboards from storage, skipping anything that is not a leaderboard entry.
+ *
+ * @param storage - Where the leaderboards are kept, usually `localStorage`.
+ * @param key - The storage key.
+ * @returns The stored leaderboards, or none if nothing usable is stored.
+ */
+export const loadLeaderboards = (storage: Pick<Storage, "getItem">, key: string = LEADERBOARD_STORAGE_KEY): Leaderboards => {
+  const stored = (() => {
+    try {
+      return JSON.parse(storage.getItem(key) ?? "{}");
+    } catch {
+      return {};
+    }
+  })();
+  return typeof stored === "object" && stored !== null
+    ? Object.fromEntries(
+        Object.entries(stored)
+          .filter((board): board is [string, unknown[]] => Array.isArray(board[1]))
+          .map(([mode, entries]) => [mode, entries.filter(isEntry).slice(0, LEADERBOARD_SIZE)])
+      )
+    : {};
+};
+
+/**
+ * Writes the leaderboards to storage.
+ *
+ * @param storage - Where the leaderboards are kept, usually `localStorage`.
+ * @param leaderboards - The leaderboards to save.
+ * @param key - The storage key.
+ */
+export const saveLeaderboards = (storage: Pick<Storage, "setItem">, leaderboards: Leaderboards, key: string = LEADERBOARD_STORAGE_KEY): void =>
+  storage.setItem(key, JSON.stringify(leaderboards));
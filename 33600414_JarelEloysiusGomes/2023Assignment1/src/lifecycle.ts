@@ -0,0 +1,45 @@
+/** The game lifecycle: menu, countdown, playing, paused and game over, and the moves between them */
+
+/**
+ * A phase of a game's lifecycle.
+ *
+ * - `menu`: waiting for the player to choose a mode and start.
+ * - `countdown`: the board is ready, play starts when the countdown runs out.
+ * - `playing`: the pieces fall and respond to the controls.
+ * - `paused`: play is frozen until the player resumes.
+ * - `gameOver`: the game has ended, by topping out or by finishing the mode.
+ */
+export type Phase = "menu" | "countdown" | "playing" | "paused" | "gameOver";
+
+/**
+ * How long the countdown before play lasts, in milliseconds.
+ */
+export const COUNTDOWN_MS = 3000;
+
+/**
+ * The phases each phase can move on to. Any phase can go back to the menu or start a new countdown.
+ */
+const TRANSITIONS: Readonly<Record<Phase, readonly Phase[]>> = {
+  menu: ["menu", "countdown"],
+  countdown: ["menu", "countdown", "playing"],
+  playing: ["menu", "countdown", "paused", "gameOver"],
+  paused: ["menu", "countdown", "playing"],
+  gameOver: ["menu", "countdown"],
+};
+
+/**
+ * Checks whether the lifecycle allows moving from one phase to another.
+ * @param from - The current phase.
+ * @param to - The phase to move to.
+ * @returns `true` if the move is allowed.
+ */
+export const canTransition = (from: Phase, to: Phase): boolean =>
+  TRANSITIONS[from].includes(to);
+
+/**
+ * Gets the whole seconds left on a countdown, as shown to the player: 3, 2, then 1.
+ * @param remaining - The milliseconds left.
+ * @returns The seconds to show.
+ */
+export const countdownSeconds = (remaining: number): number =>
+  Math.max(1, Math.ceil(remaining / 1000));
@@ -14,517 +14,115 @@
 
 import "./style.css";
 
-import { fromEvent, interval, Observable, merge, Subject } from 'rxjs';
-import { map, filter, scan, tap } from 'rxjs/operators';
+import { BehaviorSubject, combineLatest, from, fromEvent, interval, Observable, merge, timer, zip } from 'rxjs';
+import { distinctUntilChanged, map, filter, mergeMap, pairwise, scan, share, startWith, switchMap, tap, withLatestFrom } from 'rxjs/operators';
+import { RNG } from './util';
+import { isGeneratorName } from './generators';
+import { Cell, defaultConfig, FilledCell, GameConfig, Tetrimino } from './types';
+import { pieceColor, tetriminoCells } from './pieces';
+import { encodeFumen } from './fumen';
+import { rowsFromGrid } from './boardText';
+import { isPuzzleGoalName, parsePuzzle, Puzzle, PUZZLE_GOALS, serialisePuzzle } from './puzzle';
+import { noSpecialChances, SPECIAL_BLOCKS, specialMessage } from './specials';
+import { BUILT_IN_PIECE_SETS, isPieceSetName, parsePieceSet, PieceSet, PieceSetName, standardPieces } from './pieceSets';
+import { Handling } from './handling';
+import { addEntry, bestEntry, isRecord, leaderboardFor, Leaderboards, loadLeaderboards, saveLeaderboards } from './leaderboard';
+import { bindInput, Command, COMMAND_LABELS, commandFor, COMMANDS, findConflict, gamepadInput, Input, InputChange, inputChanges, KEY_MAP_STORAGE_KEY, KeyMap, loadKeyMap, saveKeyMap, SECOND_PLAYER_KEY_MAP_STORAGE_KEY, secondPlayerKeyMap, unbindInput } from './controls';
+import { advanceReplay, finishRecording, openReplay, parseReplay, recordCommand, Replay, REPLAY_SPEEDS, REPLAYED_COMMANDS, replayFrame, ReplayPlayer, seekReplay, serialiseReplay, startRecording } from './replay';
+import { isGravityCurveName } from './gravity';
+import { GAME_MODES, GameModeName, isGameModeName, Stat } from './modes';
+import { historyPosition, historyStates } from './history';
+import { acceptsCommand, CommandChange, Constants, createInitialState, landingPosition, Pause, piecesOf, replayState, State, step, TogglePauseResume } from './engine';
+import { createMatch, EndDemo, EveryPlayer, isBot, Match, MatchAction, PlayerAction, QuitMatch, reduceMatch, StartMatch, TickMatch } from './match';
+import { countdownSeconds, Phase } from './lifecycle';
+import { bestPlacement, BOT_LEVELS, createBot, isBotLevelName, Placement } from './ai';
+
 /** Constants */
 
 const Viewport = {
   CANVAS_WIDTH: 200,
   CANVAS_HEIGHT: 400,
   PREVIEW_WIDTH: 160,
-  PREVIEW_HEIGHT: 80,
-} as const;
-
-const Constants = {
-  TICK_RATE_MS: 500,
-  GRID_WIDTH: 10,
-  GRID_HEIGHT: 20,
+  PREVIEW_SLOT_HEIGHT: 64,
+  PREVIEW_BLOCK_SIZE: 12,
+  METER_WIDTH: 12,
 } as const;
 
+// Blocks keep the size they have on the standard board; other boards get a canvas to fit
 const Block = {
-  WIDTH: Viewport.CANVAS_WIDTH / Constants.GRID_WIDTH,
-  HEIGHT: Viewport.CANVAS_HEIGHT / Constants.GRID_HEIGHT,
+  WIDTH: Viewport.CANVAS_WIDTH / defaultConfig.boardWidth,
+  HEIGHT: Viewport.CANVAS_HEIGHT / defaultConfig.boardHeight,
 };
 
+// The demo the AI plays when the menu is left alone, and the AI the hints come from
+const Demo = {
+  IDLE_MS: 10000,
+  GAME_OVER_MS: 3000,
+  MODE: "marathon",
+  LEVEL: "hard",
+} as const;
+
 /** User input */
-type Key = "KeyS" | "KeyA" | "KeyD" | "KeyW" | "Space" | "KeyR" | "KeyP";
 type Event = "keydown" | "keyup" | "keypress";
 
-type ActionForKey = { apply: (s: State) => State };
-
 // Types for game elements
 type Block = { x: number, y: number, color: string };
-type Tetrimino = Block[];
-
-/** Utility functions */
-
-/** State processing */
-
-/**
- * Represents the state of the game.
- *
- * @param grid - The game grid as a 2D array of booleans.
- * @param currentTetrimino - The currently active Tetrimino.
- * @param nextTetrimino - The next Tetrimino in the queue.
- * @param gameOver - Indicates whether the game is over.
- * @param userScore - The user's current score.
- * @param userLevel - The user's current level.
- * @param highScore - The highest score achieved in the game.
- * @param paused - Indicates whether the game is paused.
- *
- * @returns An object representing the game state.
- */
-type State = {
-  grid: boolean[][],
-  currentTetrimino: Tetrimino,
-  nextTetrimino: Tetrimino; // Add nextTetrimino property
-  gameOver: boolean,
-  userScore: number,       // Add score property
-  userLevel: number,       // Add level property
-  highScore: number,   // Add highScore property
-  paused: boolean     // Add isPaused property
-};
-
-/**
- * Initializes the game state.
- * @returns {State} The initial game state.
- */
-const initialState: State = {
-  grid: Array.from({ length: 20 }, () => Array(10).fill(false)),
-  currentTetrimino: generateANewTetrimino(),
-  nextTetrimino: generateANewTetrimino(), // Initialize nextTetrimino
-  gameOver: false,
-  userScore: 0,            // Initialize score to 0
-  userLevel: 1,            // Initialize level to 1
-  highScore: 0,        // Initialize highScore to 0
-  paused: false, // Initialize isPaused to false
-};
-
-/**
- * Define the gold Tetrimino.
- * @returns {Tetrimino} The gold Tetrimino shape as an array of block objects.
- */
-const goldTetrimino: Tetrimino = [
-  { x: 0, y: 0, color: 'gold' },
-  // Add other blocks to define the shape of the gold Tetrimino
-];
-
-
-/**
- * Move the current Tetrimino down by one unit.
- *
- * @param {State} s - The current game state.
- * @returns {State} The updated game state with the Tetrimino moved down.
- */
-const tick = (s: State): State => {
-  const newTetrimino = s.currentTetrimino.map(block => ({...block, x: block.x, y: block.y + 1 }));
-  return { ...s, currentTetrimino: newTetrimino, nextTetrimino: generateANewTetrimino() };
-};
-
-
-/**
- * Check if there is a collision between a moved Tetrimino and the game grid.
- * @param movedTetrimino The Tetrimino that has been moved.
- * @param grid The game grid represented as a boolean 2D array.
- * @returns True if a collision is detected, otherwise false.
- */
-function isCollisionDetected(movedTetrimino: Tetrimino, grid: boolean[][]): boolean {
-  return movedTetrimino.some(block => 
-    block.y >= Constants.GRID_HEIGHT || grid[block.y][block.x]
-  );
-}
-
-
-/**
- * Processes collisions in the game.
- * @param s - The game state to process collisions for.
- * @returns The updated game state after processing collisions.
- */
-function processCollision(s: State): State {
-  // Check if the game is paused
-  if (s.paused) {
-    return s; // Return the current state without making any changes
-  }
-
-  // Create a new grid with the current Tetrimino placed on it
-  const newGrid = placeTetrimino(s.currentTetrimino, s.grid);
-  // Clear completed lines
-  const { grid, linesCleared, goldLineCleared } = clearLines(newGrid, goldTetrimino);
-  // Calculate the new score based on the number of lines cleared
-  const newScore = s.userScore + linesCleared * 100;// 100 points per cleared line
-
-  // Double the score if a gold Tetrimino line was cleared
-  const goldLines = goldTetrimino.filter((block) => block.y === linesCleared - 1);
-  const goldScoreIncrease = goldLineCleared ? goldLines.length * 200 : 0;
-
-  // Update high score if needed
-  const newHighScore = Math.max(s.highScore, newScore + goldScoreIncrease);
-
-  // Calculate the new level based on the new score
-  const newLevel = Math.floor(newScore / 1000) + 1; // Increase level every 1000 points
-
-  // Calculate the new tick rate based on the new level
-  const newTetrimino = s.nextTetrimino;
-
-  // Next Tetrimino is now the current Tetrimino
-  const newNextTetrimino = generateANewTetrimino();
-
-  // Return the updated state
-  return isCollisionDetected(newTetrimino, grid)
-    ? { ...s, gameOver: true, userScore: newScore + goldScoreIncrease, highScore: newHighScore }
-    : {
-        grid,
-        currentTetrimino: newTetrimino,
-        nextTetrimino: newTetrimino,
-        gameOver: false,
-        userScore: newScore + goldScoreIncrease,
-        userLevel: newLevel,
-        highScore: newHighScore,
-        paused: s.paused,
-      };
-}
-
 
-// Left, Right, Down, Rotate, Drop, Restart, Pause/Resume
+// A command from one of the players in a match
+type PlayerCommand = CommandChange & { player: number };
 
-/**
- * Move Tetrimino Left
- * @param s - The current game state
- * @returns The updated game state after moving the Tetrimino left
- */
-class moveTetriminoLeft implements ActionForKey {
-  // Apply the action to the current state
-  apply(s: State): State {
-    // Calculate the new positions of the Tetrimino blocks when moved left
-    const newTetrimino = s.currentTetrimino.map(block => ({
-      ...block,
-      x: block.x - 1,
-    }));
-
-    // Check for wall collision on the left side
-    const isLeftCollision = newTetrimino.some(block => block.x < 0);
-
-    // Check for collision with existing blocks in the grid
-    const isGridCollision = isCollisionDetected(newTetrimino, s.grid);
-
-    // Return the updated state based on collision results
-    return isLeftCollision || isGridCollision
-      ? s // Don't update state if detect collision
-      : { ...s, currentTetrimino: newTetrimino };
-  }
-}
-
-/**
- * Moves the Tetrimino to the right.
- * @param s - The current game state.
- * @returns The updated game state after the Tetrimino has been moved.
- */
-class moveTetriminoRight implements ActionForKey {
-  // Apply the action to the current state
-  apply(s: State): State {
-    // Calculate the new positions of the Tetrimino blocks when moved right
-    const newTetrimino = s.currentTetrimino.map(block => ({
-      ...block, // Spread operator to copy the block object
-      x: block.x + 1, // Move the block to the right
-    }));
-
-    // Check for wall collision on the right side
-    const isRightCollision = newTetrimino.some(
-      block => block.x >= Constants.GRID_WIDTH
-    );
-
-    // Check for collision with existing blocks in the grid
-    const isGridCollision = isCollisionDetected(newTetrimino, s.grid);
-
-    // Return the updated state based on collision results
-    return isRightCollision || isGridCollision
-      ? s // Don't update state if detected collision
-      : { ...s, currentTetrimino: newTetrimino };
-  }
-}
-
-
-/**
- * Move Tetrimino Down Action
- * @param {State} s - The current game state.
- * @returns {State} - The updated game state after moving the Tetrimino down.
- */
-class moveTetriminoDown implements ActionForKey {
-  // Apply the action to the current state
-  apply(s: State): State {
-    // Calculate the new positions of the Tetrimino blocks when moved down
-    const newTetrimino = s.currentTetrimino.map(block => ({
-      ...block, // Spread operator to copy the block object
-      y: block.y + 1, // Move the block down
-    }));
-
-    // Check for collision with existing blocks in the grid
-    const isGridCollision = isCollisionDetected(newTetrimino, s.grid);
-
-    // Generate the next Tetrimino
-    const nextTetrimino = generateANewTetrimino();
-
-    // Return the updated state based on collision results
-    return isGridCollision
-      ? { ...processCollision(s), nextTetrimino } // Process collision if detected
-      : { ...s, currentTetrimino: newTetrimino, nextTetrimino }; // Update state if no collision
-  }
-}
-
-/**
- * Rotates a Tetrimino.
- *
- * @param {Tetrimino} tetrimino - The Tetrimino to be rotated.
- * @returns {Tetrimino} The rotated Tetrimino.
- */
-function rotateTetrimino(tetrimino: Tetrimino): Tetrimino {
-  // Get the origin of the Tetrimino
-  const origin = tetrimino[0];
-  // Rotate the Tetrimino around the origin
-  const rotatedTetrimino = tetrimino.map(({ x, y, color }) => ({
-    x: origin.x - (y - origin.y), // x = x0 - (y - y0), which basically swaps the x and y coordinates
-    y: origin.y + (x - origin.x), // y = y0 + (x - x0), which basically swaps the x and y coordinates
-    color // Keep the color the same
-  }));
-  // Return the rotated Tetrimino
-  return rotatedTetrimino;
-}
-
-/**
- * Rotates the current Tetrimino.
- *
- * @param s - The current state.
- * @returns The updated state after rotating the Tetrimino if no collision or edge conditions are met, otherwise, the current state remains unchanged.
- */
-class Rotate implements ActionForKey {
-  // Apply the action to the current state
-  apply(s: State): State {
-    // Calculate the rotated Tetrimino without modifying the original
-    const rotatedTetrimino = rotateTetrimino([...s.currentTetrimino]);
-
-    // Check collision and edge conditions
-    const isGridCollision = isCollisionDetected(rotatedTetrimino, s.grid); // Check for collision with existing blocks in the grid
-    const willExceedEdgesCondition = willExceedEdges(rotatedTetrimino, s.grid); // Check if the Tetrimino will exceed the edges of the grid
-
-    // Return the updated state based on collision and edge conditions
-    return isGridCollision || willExceedEdgesCondition
-      ? s // Don't rotate if collision or edge conditions are met
-      : { ...s, currentTetrimino: rotatedTetrimino };
-  }
-}
-
-
-/**
- * Checks if a Tetrimino will exceed the edges of the grid.
- * @param tetrimino - The Tetrimino to check.
- * @param grid - The grid represented as a boolean 2D array.
- * @returns `true` if any part of the Tetrimino will exceed the grid edges, `false` otherwise.
- */
-function willExceedEdges(tetrimino: Tetrimino, grid: boolean[][]): boolean {
-  // Get the width and height of the grid
-  const gridWidth = grid[0].length; // The width is the length of the first row
-  const gridHeight = grid.length; // The height is the length of the grid
-
-  // Check if any of the blocks will exceed the edges of the grid
-  return tetrimino.some(({ x, y }) => {
-    // Check if the block will exceed the left or right edge
-    return x < 0 || x >= gridWidth || y >= gridHeight;
-  });
-}
-
-
-/**
- * Applies the instant drop action to the current state.
- *
- * This function moves the current Tetrimino down until it collides with
- * existing blocks in the grid, and then updates the game state accordingly.
- *
- * @param {State} s - The current game state.
- * @returns {State} The updated game state after applying the instant drop action.
- */
-class instantDROP implements ActionForKey {
-  // Apply the action to the current state
-  apply(s: State): State {
-    // Calculate the new positions of the Tetrimino blocks when moved down
-    let newTetrimino = s.currentTetrimino;
-    // Move the Tetrimino down until it collides with existing blocks in the grid
-    while (!isCollisionDetected(newTetrimino, s.grid)) {
-      newTetrimino = newTetrimino.map(block => ({ ...block, x: block.x, y: block.y + 1 })); // Move the Tetrimino down
-    }
-    // Return the updated state
-    newTetrimino = newTetrimino.map(block => ({ ...block, x: block.x, y: block.y - 1 }));
-
-    // Check for collision with existing blocks in the grid
-    if (isCollisionDetected(newTetrimino, s.grid)) {
-      // Return the updated state if there's a collision
-      return { ...processCollision(s), nextTetrimino: generateANewTetrimino() }; // Process collision if detected
-    }
-
-    // Return the updated state if there's no collision
-    return { ...s, currentTetrimino: newTetrimino, nextTetrimino: generateANewTetrimino() }; // Update state if no collision
-  }
-}
+// The settings the start menu chooses for the next game
+type MenuChoice = Pick<GameConfig, "mode" | "pieces" | "puzzle" | "gravity">;
 
+/** Utility functions */
 
 /**
- * Duplicates a grid.
- * @param board - The grid to duplicate.
- * @returns A new grid that is a duplicate of the input grid.
+ * Formats a duration as minutes, seconds and hundredths, e.g. "2:05.40".
+ * @param ms The duration in milliseconds.
+ * @returns The formatted duration.
  */
-const gridDuplicate = (grid: boolean[][]): boolean[][] => {
-  return grid.map(row => [...row]);
+const formatDuration = (ms: number): string => {
+  const hundredths = Math.floor(ms / 10);
+  const seconds = Math.floor(hundredths / 100);
+  return `${Math.floor(seconds / 60)}:${`${seconds % 60}`.padStart(2, "0")}.${`${hundredths % 100}`.padStart(2, "0")}`;
 };
 
-
 /**
- * Restarts the game.
- * @implements {ActionForKey}
+ * Gets the blocks of a Tetrimino, with their board positions and colour.
+ * @param tetrimino The Tetrimino to get the blocks of.
+ * @param pieces The piece set the Tetrimino comes from.
+ * @returns The blocks that make up the Tetrimino.
  */
-class Restart implements ActionForKey {
-  apply(s: State): State {
-    // Reset the game to its initial state, but keep the high score
-    return { ...initialState, highScore: s.highScore };
-  }
+function tetriminoBlocks(tetrimino: Tetrimino, pieces: PieceSet): Block[] {
+  const color = cellColor({ kind: tetrimino.kind, special: tetrimino.special }, pieces);
+  return tetriminoCells(tetrimino, pieces).map(({ x, y }) => ({ x, y, color }));
 }
 
-
 /**
- * Toggles pause and resume of the game.
- * @implements {ActionForKey}
+ * Gets the colour a filled cell is drawn in.
+ * @param cell The filled cell.
+ * @param pieces The piece set the cell's piece came from.
+ * @returns The colour of the cell.
  */
-class TogglePauseResume implements ActionForKey {
-  private isPaused: boolean = false;
-
-  apply(s: State): State {
-    if (!this.isPaused) {
-      // Pause the game
-      this.isPaused = true;
-      return { ...s, paused: true };
-    } else {
-      // Resume the game
-      this.isPaused = false;
-      return { ...s, paused: false };
-    }
-  }
+function cellColor(cell: FilledCell, pieces: PieceSet): string {
+  return cell.special ? SPECIAL_BLOCKS[cell.special].color
+    : cell.kind === 'garbage' ? 'gray'
+    : pieceColor(cell.kind, pieces);
 }
 
-
-
 /**
- * Toggles pause and resume of the game.
- * @implements {ActionForKey}
+ * Gets the blocks of a Tetrimino moved so that their top-left corner sits at the origin.
+ * @param tetrimino - The Tetrimino to normalise.
+ * @param pieces - The piece set the Tetrimino comes from.
+ * @returns The normalised blocks.
  */
-class Tick implements ActionForKey {
-  // The elapsed time is passed as a parameter
-  constructor(public readonly elapsed: number) {}
-  
-  // Apply the action to the current state
-  apply(s: State): State {
-    // Check if the game is paused
-    const movedTetrimino = s.currentTetrimino.map(block => ({ ...block, x: block.x, y: block.y + 1 }));
-    
-    // Check for collision with existing blocks in the grid
-    if (isCollisionDetected(movedTetrimino, s.grid)) {
-      return { ...processCollision(s), nextTetrimino: generateANewTetrimino() };
-    }
-    
-    // Return the updated state if there's no collision
-    return {
-      ...s,
-      currentTetrimino: movedTetrimino,
-      nextTetrimino: generateANewTetrimino(),
-    };
-  }
-}
-
-/**
- * Place a Tetrimino on a grid.
- * 
- * @param {Tetrimino} tetrimino - The Tetrimino to place on the grid.
- * @param {boolean[][]} grid - The grid where the Tetrimino will be placed.
- * @returns {boolean[][]} - A new grid with the Tetrimino placed on it.
- */
-function placeTetrimino(tetrimino: Tetrimino, grid: boolean[][]): boolean[][] {
-  // Duplicate the grid to avoid mutating the original
-  return tetrimino.reduce((newGrid, block) => {
-    // Update the grid with the new block
-    return newGrid.map((row, rowIndex) => {
-      // Check if the current row matches the block's y position
-      if (rowIndex === block.y) {
-        // Update the row with the new block
-        return row.map((cell, colIndex) => {
-          // Check if the current cell matches the block's x position
-          if (colIndex === block.x) {
-            // Update the cell with the new block
-            return true;
-          }
-          // Return the cell without updating it
-          return cell;
-        });
-      }
-      // Return the row without updating it
-      return row;
-    });
-    // Initialize the grid with empty rows
-  }, grid);
-}
-
-
-/**
- * Clears completed lines in the grid and checks for a gold Tetrimino in cleared lines.
- *
- * @param grid - The grid containing the game state as a 2D array of booleans.
- * @param goldTetrimino - The gold Tetrimino to check for in cleared lines.
- *
- * @returns An object containing the updated grid, the number of lines cleared, and whether a gold line was cleared.
- */
-function clearLines(grid: boolean[][], goldTetrimino: Tetrimino): { grid: boolean[][], linesCleared: number, goldLineCleared: boolean } {
-  // Function to create an empty row
-  const emptyRow = (length: number): boolean[] => Array(length).fill(false);
-
-  // Initialize the state
-  const initialState = { grid: [] as boolean[][], linesCleared: 0, goldLineCleared: false };
-
-  //  Check if any of the rows are completed
-  const result = grid.reduce((state, row) => {
-    // Check if the row is completed
-    if (row.every(cell => cell)) {
-      // Check if the row contains a gold Tetrimino
-      const goldLineCleared = row.some((_, x) => goldTetrimino.some(block => block.x === x && block.y === state.linesCleared));
-      //  Return the updated state
-      return { 
-        grid: state.grid, 
-        linesCleared: state.linesCleared + 1, 
-        goldLineCleared: goldLineCleared || state.goldLineCleared 
-      };
-    }
-    // Return the updated state
-    return { 
-      grid: [...state.grid, row], 
-      linesCleared: state.linesCleared,
-      goldLineCleared: state.goldLineCleared
-    };
-  }, initialState);
-
-  // Add empty rows to the top of the grid
-  const emptyRows = Array(result.linesCleared).fill(emptyRow(grid[0].length));
-  // Return the updated grid
-  return {
-    grid: [...emptyRows, ...result.grid],
-    linesCleared: result.linesCleared,
-    goldLineCleared: result.goldLineCleared
-  };
+export function normaliseTetrimino(tetrimino: Tetrimino, pieces: PieceSet = standardPieces): Block[] {
+  const blocks = tetriminoBlocks(tetrimino, pieces);
+  const minX = Math.min(...blocks.map(block => block.x));
+  const minY = Math.min(...blocks.map(block => block.y));
+  return blocks.map(block => ({ ...block, x: block.x - minX, y: block.y - minY }));
 }
 
-/**
- * Function to check if a Tetrimino is a gold Tetrimino
- * @param seed - The seed value for random number generation
- * @returns A hash of the seed
- */
-abstract class RNG {
-  // LCG using GCC's constants
-  private static readonly m = 0x80000000; // 2**31;
-  private static readonly a = 1103515245; // Choose a
-  private static readonly c = 12345; // Choose c to be coprime to m
-
-  // Function to generate a hash from a seed
-  public static hash = (seed: number) => Math.abs(RNG.a * seed + RNG.c) % RNG.m;
-
-  //  Function to scale a hash to a value between -1 and 1
-  public static scale = (hash: number) => (2 * hash) / (RNG.m - 1) - 1;
-}
-
-
 /**
  * Creates a random number stream using a linear congruential generator (LCG) from an Observable source.
  *
@@ -544,105 +142,6 @@ export function createRngStreamFromSource<T>(source$: Observable<T>) {
   };
 }
 
-
-/**
- * Generates a new Tetrimino.
- * @returns {Tetrimino} A Tetrimino object representing the generated shape.
- */
-function generateANewTetrimino(): Tetrimino {
-  const shapes = [
-    // Shape 1: Cyan
-    [
-      { x: 0, y: 0, color: 'cyan' },
-      { x: 0, y: 1, color: 'cyan' },
-      { x: 0, y: 2, color: 'cyan' },
-      { x: 0, y: 3, color: 'cyan' }
-    ],
-    // Shape 2: Yellow
-    [
-      { x: 0, y: 0, color: 'yellow' },
-      { x: 1, y: 0, color: 'yellow' },
-      { x: 0, y: 1, color: 'yellow' },
-      { x: 1, y: 1, color: 'yellow' }
-    ],
-    // Shape 3: Blue
-    [
-      { x: 1, y: 0, color: 'blue' },
-      { x: 2, y: 0, color: 'blue' },
-      { x: 0, y: 1, color: 'blue' },
-      { x: 1, y: 1, color: 'blue' }
-    ],
-    // Shape 4: Green
-    [
-      { x: 0, y: 0, color: 'green' },
-      { x: 1, y: 0, color: 'green' },
-      { x: 1, y: 1, color: 'green' },
-      { x: 2, y: 1, color: 'green' }
-    ],
-    // Shape 5: Orange
-    [
-      { x: 0, y: 0, color: 'orange' },
-      { x: 0, y: 1, color: 'orange' },
-      { x: 0, y: 2, color: 'orange' },
-      { x: 1, y: 2, color: 'orange' }
-    ],
-    // Shape 6: Red
-    [
-      { x: 0, y: 0, color: 'red' },
-      { x: 0, y: 1, color: 'red' },
-      { x: 0, y: 2, color: 'red' },
-      { x: 1, y: 2, color: 'red' }
-    ],
-    // Shape 7: Purple
-    [
-      { x: 1, y: 0, color: 'purple' },
-      { x: 0, y: 1, color: 'purple' },
-      { x: 1, y: 1, color: 'purple' },
-      { x: 2, y: 1, color: 'purple' }
-    ]
-  ];
-
-  // Calculate the xOffset so that the Tetrimino starts in the middle of the grid
-  const xOffset = Math.floor((Constants.GRID_WIDTH - 2) / 2); // Center the Tetrimino
-  
-  // Calculate the yOffset so that the Tetrimino starts at the top of the grid
-  const yOffset = 0;
-
-  // Generate a random number between 0 and 6
-  const shapeIndex = Math.floor(Math.random() * shapes.length); // Random shape
-  
-  // Add a gold Tetrimino as an option
-  // 8th special case: GOLD
-  const goldTetrimino: Tetrimino = [
-    { x: xOffset + 0, y: 0, color: 'gold' },
-    { x: xOffset + 0, y: 1, color: 'gold' },
-    { x: xOffset + 1, y: 1, color: 'gold' },
-    { x: xOffset + 1, y: 2, color: 'gold' },
-  ];
-
-  // Generate a random number between 0 and 100
-  const randomChance = Math.floor(Math.random() * 101);
-
-  const x2Offset = Math.floor((Constants.GRID_WIDTH - 10) / 2); // Center the Tetrimino
-  
-  // 5% chance of getting a gold Tetrimino
-  if (randomChance <= 5) {
-    return goldTetrimino.map((block) => ({ 
-      ...block,
-      x: block.x + x2Offset,
-      y: block.y + yOffset,
-    }));
-  } else {
-    return shapes[shapeIndex].map((block) => ({
-      ...block,
-      x: block.x + xOffset,
-      y: block.y + yOffset,
-    }));
-  }
-}
-
-
-
 /** Rendering (side effects) */
 
 /**
@@ -692,6 +191,8 @@ export function main() {
     HTMLElement;
   const preview = document.querySelector("#svgPreview") as SVGGraphicsElement &
     HTMLElement;
+  const holdPreview = document.querySelector("#svgHold") as SVGGraphicsElement &
+    HTMLElement;
   const gameover = document.querySelector("#gameOver") as SVGGraphicsElement &
     HTMLElement;
   // Add a new HTML element to represent the preview Tetrimino on the sidebar
@@ -718,142 +219,747 @@ export function main() {
     console.error("One or more elements not found");
   }
 
-
+  // The second player's board, shown in versus
+  const opponentView = document.querySelector("#opponent") as HTMLElement;
+  const opponentSvg = document.querySelector("#svgCanvas2") as SVGGraphicsElement & HTMLElement;
+  const opponentPreview = document.querySelector("#svgPreview2") as SVGGraphicsElement & HTMLElement;
+  const opponentHold = document.querySelector("#svgHold2") as SVGGraphicsElement & HTMLElement;
+  const opponentScoreText = document.querySelector("#opponentScoreText") as HTMLElement;
+  const opponentLinesText = document.querySelector("#opponentLinesText") as HTMLElement;
+
+  // The incoming garbage meters beside each board, and the result of a versus match
+  const garbageMeter = document.querySelector("#garbageMeter") as SVGGraphicsElement & HTMLElement;
+  const opponentGarbageMeter = document.querySelector("#garbageMeter2") as SVGGraphicsElement & HTMLElement;
+  const matchResult = document.querySelector("#matchResult") as HTMLElement;
+  const matchResultText = document.querySelector("#matchResultText") as HTMLElement;
+
+  // Who plays the second board in versus, the hint switch and the demo notice
+  const opponentSelect = document.querySelector("#opponentSelect") as HTMLSelectElement;
+  const hintToggle = document.querySelector("#hintToggle") as HTMLInputElement;
+  const gravityToggle = document.querySelector("#gravityToggle") as HTMLInputElement;
+  const demoMessage = document.querySelector("#demoMessage") as HTMLElement;
 
   // Set the height and width of the SVG elements
-  svg.setAttribute("height", `${Viewport.CANVAS_HEIGHT}`);
-  svg.setAttribute("width", `${Viewport.CANVAS_WIDTH}`);
-  preview.setAttribute("height", `${Viewport.PREVIEW_HEIGHT}`);
-  preview.setAttribute("width", `${Viewport.PREVIEW_WIDTH}`);
+  [svg, opponentSvg].forEach(canvas => {
+    canvas.setAttribute("height", `${Viewport.CANVAS_HEIGHT}`);
+    canvas.setAttribute("width", `${Viewport.CANVAS_WIDTH}`);
+  });
+  [preview, opponentPreview].forEach(queue => queue.setAttribute("width", `${Viewport.PREVIEW_WIDTH}`));
+  [holdPreview, opponentHold].forEach(hold => {
+    hold.setAttribute("height", `${Viewport.PREVIEW_SLOT_HEIGHT}`);
+    hold.setAttribute("width", `${Viewport.PREVIEW_WIDTH}`);
+  });
+  [garbageMeter, opponentGarbageMeter].forEach(meter => {
+    meter.setAttribute("height", `${Viewport.CANVAS_HEIGHT}`);
+    meter.setAttribute("width", `${Viewport.METER_WIDTH}`);
+  });
 
   // Text fields
   const levelText = document.querySelector("#levelText") as HTMLElement;
   const scoreText = document.querySelector("#scoreText") as HTMLElement;
   const highScoreText = document.querySelector("#highScoreText") as HTMLElement;
+  const linesText = document.querySelector("#linesText") as HTMLElement;
+  const timeText = document.querySelector("#timeText") as HTMLElement;
+  const garbageText = document.querySelector("#garbageText") as HTMLElement;
+  const goalText = document.querySelector("#goalText") as HTMLElement;
+  const gameOverText = document.querySelector("#gameOverText") as SVGTextElement;
+
+  // The sidebar rows for each statistic, shown only in the modes that use them
+  const statRows: Readonly<Record<Stat, HTMLElement>> = {
+    score: document.querySelector("#scoreRow") as HTMLElement,
+    level: document.querySelector("#levelRow") as HTMLElement,
+    lines: document.querySelector("#linesRow") as HTMLElement,
+    time: document.querySelector("#timeRow") as HTMLElement,
+    garbage: document.querySelector("#garbageRow") as HTMLElement,
+    goal: document.querySelector("#goalRow") as HTMLElement,
+  };
+
+  // Start menu
+  const modeSelect = document.querySelector("#modeSelect") as HTMLSelectElement;
+  const startButton = document.querySelector("#startButton") as HTMLButtonElement;
+  const pauseButton = document.querySelector("#pauseButton") as HTMLButtonElement;
+  const resetButton = document.querySelector("#resetButton") as HTMLButtonElement;
+
+  // The message shown over the board in the menu, during the countdown and while paused
+  const phaseOverlay = document.querySelector("#phaseOverlay") as SVGGraphicsElement & HTMLElement;
+  const phaseText = document.querySelector("#phaseText") as SVGTextElement;
+  const clearMessage = document.querySelector("#clearMessage") as HTMLElement;
+  const messageContainer = document.querySelector("#messageContainer") as HTMLElement;
+  const specialMessageText = document.querySelector("#specialMessage") as HTMLElement;
+
+  // The timeline of placements that can be undone and redone
+  const historyPanel = document.querySelector("#history") as HTMLElement;
+  const historyScrubber = document.querySelector("#historyScrubber") as HTMLInputElement;
+  const historyText = document.querySelector("#historyText") as HTMLElement;
+
+  // Leaderboard panel
+  const leaderboardPanel = document.querySelector("#leaderboard") as HTMLElement;
+  const leaderboardTable = document.querySelector("#leaderboardTable") as HTMLElement;
+  const leaderboardLink = document.querySelector("#leaderboardLink") as SVGGraphicsElement;
+  const leaderboardClose = document.querySelector("#leaderboardClose") as HTMLButtonElement;
+  const leaderboardTitle = document.querySelector("#leaderboardTitle") as HTMLElement;
+  const recordForm = document.querySelector("#recordForm") as HTMLFormElement;
+  const recordName = document.querySelector("#recordName") as HTMLInputElement;
+
+  // Replay panel
+  const replayDownload = document.querySelector("#replayDownload") as HTMLButtonElement;
+  const replayFile = document.querySelector("#replayFile") as HTMLInputElement;
+  const replayPlayerControls = document.querySelector("#replayPlayer") as HTMLElement;
+  const replayPlay = document.querySelector("#replayPlay") as HTMLButtonElement;
+  const replaySpeed = document.querySelector("#replaySpeed") as HTMLSelectElement;
+  const replaySeek = document.querySelector("#replaySeek") as HTMLInputElement;
+  const replayExit = document.querySelector("#replayExit") as HTMLButtonElement;
+  const replayMessage = document.querySelector("#replayMessage") as HTMLElement;
+  // The seed of the game being played, for reproducing it
+  const seedText = document.querySelector("#seedText") as HTMLElement;
+
+  // Board panel, for copying the board out and loading puzzles in
+  const boardText = document.querySelector("#boardText") as HTMLTextAreaElement;
+  const puzzleGoal = document.querySelector("#puzzleGoal") as HTMLSelectElement;
+  const boardExport = document.querySelector("#boardExport") as HTMLButtonElement;
+  const fumenExport = document.querySelector("#fumenExport") as HTMLButtonElement;
+  const puzzleLoad = document.querySelector("#puzzleLoad") as HTMLButtonElement;
+  const boardMessage = document.querySelector("#boardMessage") as HTMLElement;
+
+  // Piece set panel
+  const pieceSetSelect = document.querySelector("#pieceSetSelect") as HTMLSelectElement;
+  const pieceSetFile = document.querySelector("#pieceSetFile") as HTMLInputElement;
+  const pieceSetMessage = document.querySelector("#pieceSetMessage") as HTMLElement;
+
+  // The replay being watched, if any
+  const replayPlayerSubject = new BehaviorSubject<ReplayPlayer | null>(null);
+
+  // Offer each replay speed, starting at real time
+  REPLAY_SPEEDS.forEach(speed => replaySpeed.add(new Option(`${speed}x`, `${speed}`, speed === 1, speed === 1)));
+
+  // Key binding panel
+  const keyBindingTable = document.querySelector("#keyBindingTable") as HTMLElement;
+  const keyBindingMessage = document.querySelector("#keyBindingMessage") as HTMLElement;
+  const keyBindingPlayer = document.querySelector("#keyBindingPlayer") as HTMLSelectElement;
 
   /** User input */
-  const key$ = fromEvent<KeyboardEvent>(document, "keydown");
 
-  const fromKey = (keyCode: Key) =>
-  key$.pipe(
-    filter(({ code }) => code === keyCode),
-    tap((event) => {
-      console.log(`Key pressed: ${event.code}`);
-    })
+  // Each player's key map, loaded from and saved to localStorage, the player whose bindings the
+  // controls panel shows, and the command waiting for a new binding, if any
+  const keyMapStorageKeys = [KEY_MAP_STORAGE_KEY, SECOND_PLAYER_KEY_MAP_STORAGE_KEY];
+  const keyMapSubjects = [
+    new BehaviorSubject<KeyMap>(loadKeyMap(window.localStorage)),
+    new BehaviorSubject<KeyMap>(loadKeyMap(window.localStorage, SECOND_PLAYER_KEY_MAP_STORAGE_KEY, secondPlayerKeyMap)),
+  ];
+  const keyBindingPlayerSubject = new BehaviorSubject<number>(0);
+  const rebindingSubject = new BehaviorSubject<Command | null>(null);
+
+  // How many players the current match has, which decides whose key map an input goes through,
+  // which boards the AI plays, where people's inputs never go, and the first board's phase
+  const playersSubject = new BehaviorSubject<number>(1);
+  const botsSubject = new BehaviorSubject<readonly boolean[]>([false]);
+  const phaseSubject = new BehaviorSubject<Phase>("menu");
+
+  /**
+   * Saves a player's new key map and puts it into use.
+   * @param player - The player's index.
+   * @param keyMap - The new key map.
+   */
+  const updateKeyMap = (player: number, keyMap: KeyMap) => {
+    saveKeyMap(window.localStorage, keyMap, keyMapStorageKeys[player]);
+    keyMapSubjects[player].next(keyMap);
+  };
+
+  // Held keys repeat on the game's own timing, so ignore the OS key repeat
+  const fromKeyboard = (event: Event, pressed: boolean): Observable<InputChange> =>
+    fromEvent<KeyboardEvent>(document, event).pipe(
+      // Typing a name into a form or a board into the board panel does not play the game
+      filter(({ repeat, target }) => !repeat && !(target instanceof HTMLInputElement) && !(target instanceof HTMLTextAreaElement)),
+      // Stop bound keys such as the arrows and space from scrolling the page
+      tap(event => keyMapSubjects.some(keyMap => commandFor(keyMap.value, event.code)) && event.preventDefault()),
+      map(({ code }) => ({ input: code, pressed }))
+    );
+
+  // Poll the gamepads once per frame, turning button presses and releases into inputs
+  const gamepad$: Observable<InputChange> = interval(Constants.FRAME_MS).pipe(
+    map(() => (navigator.getGamepads?.() ?? [])
+      .flatMap(pad => pad ? pad.buttons.flatMap((button, index) => button.pressed ? [gamepadInput(index)] : []) : [])),
+    scan(({ held }, now) => ({ held: now, changes: inputChanges(held, now) }), { held: [] as Input[], changes: [] as InputChange[] }),
+    mergeMap(({ changes }) => from(changes))
   );
 
+  const input$ = merge(fromKeyboard("keydown", true), fromKeyboard("keyup", false), gamepad$).pipe(share());
+
+  // While a command is waiting for a binding, the next input pressed is bound to it instead of playing
+  input$.pipe(
+    withLatestFrom(keyBindingPlayerSubject, rebindingSubject),
+    filter(([{ pressed }, , rebinding]) => pressed && rebinding !== null)
+  ).subscribe(([{ input }, player, rebinding]) => {
+    const keyMap = keyMapSubjects[player].value;
+    rebindingSubject.next(null);
+    if (input === "Escape") {
+      keyBindingMessage.textContent = "";
+      return;
+    }
+    const conflict = findConflict(keyMap, rebinding!, input);
+    const rebound = bindInput(keyMap, rebinding!, input);
+    if (rebound === null) {
+      keyBindingMessage.textContent = `${input} is already bound to ${COMMAND_LABELS[conflict!]}. Remove it there first.`;
+      return;
+    }
+    keyBindingMessage.textContent = "";
+    updateKeyMap(player, rebound);
+  });
+
+  // Translate inputs into commands through the key maps. In versus, the inputs bound in the second
+  // player's key map go to the second player, unless the AI plays the second board, and everything else
+  // goes through the first player's
+  const command$: Observable<PlayerCommand> = input$.pipe(
+    withLatestFrom(rebindingSubject, playersSubject, botsSubject),
+    filter(([, rebinding]) => rebinding === null),
+    map(([{ input, pressed }, , players, bots]) => {
+      const second = players > 1 && !bots[1] ? commandFor(keyMapSubjects[1].value, input) : null;
+      return second !== null
+        ? { player: 1, command: second, pressed }
+        : { player: 0, command: commandFor(keyMapSubjects[0].value, input), pressed };
+    }),
+    filter((change): change is PlayerCommand => change.command !== null),
+    withLatestFrom(replayPlayerSubject),
+    // The game stands still while a replay is being watched
+    filter(([, player]) => player === null),
+    map(([change]) => change),
+    share()
+  );
+
+  const commandDown$ = (command: Command) => command$.pipe(filter(change => change.command === command && change.pressed));
+
+  /**
+   * Renders the key binding panel: each command with a button per binding to remove it, and a button to add one.
+   * @param player - The player whose key map is shown.
+   */
+  const renderKeyBindings = (player: number) => {
+    const keyMap = keyMapSubjects[player].value;
+    keyBindingTable.innerHTML = '';
+    COMMANDS.forEach(command => {
+      const row = document.createElement("tr");
+      const label = document.createElement("td");
+      label.textContent = COMMAND_LABELS[command];
+      const bindings = document.createElement("td");
+
+      keyMap[command].forEach(input => {
+        const remove = document.createElement("button");
+        remove.textContent = input;
+        remove.title = "Remove this binding";
+        remove.addEventListener("click", () => {
+          updateKeyMap(player, unbindInput(keyMapSubjects[player].value, command, input));
+        });
+        bindings.appendChild(remove);
+      });
+
+      const add = document.createElement("button");
+      add.textContent = "+";
+      add.title = "Add a binding";
+      add.addEventListener("click", () => {
+        keyBindingMessage.textContent = `Press a key or button for ${COMMAND_LABELS[command]} (Escape cancels)`;
+        rebindingSubject.next(command);
+      });
+      bindings.appendChild(add);
+
+      row.append(label, bindings);
+      keyBindingTable.appendChild(row);
+    });
+  };
+  fromEvent(keyBindingPlayer, "change").pipe(map(() => Number(keyBindingPlayer.value))).subscribe(keyBindingPlayerSubject);
+  combineLatest([keyBindingPlayerSubject, ...keyMapSubjects]).subscribe(([player]) => renderKeyBindings(player));
+
   /** Observables */
 
-  // Calculate the initial tick rate based on the player's level
-  const initialTickRate = calculateTickRate(initialState.userLevel);
+  // Seed the first game from the URL (e.g. ?seed=42) so a game can be reproduced, or from the clock
+  const params = new URLSearchParams(window.location.search);
+  const seedParam = Number(params.get("seed"));
+  const initialSeed = params.has("seed") && Number.isFinite(seedParam) ? seedParam : Date.now();
 
-  // Define the tick observable with the initial tick rate
-  const tick$ = interval(initialTickRate).pipe(map(elapsed => new Tick(elapsed)));
+  // Pick the piece generator from the URL (e.g. ?generator=uniform), or use the default
+  const generatorParam = params.get("generator") ?? "";
 
-  // Define a function that calculates the tick rate based on the player's level
-  function calculateTickRate(level: number): number {
-    const tickRateReductionPercentage = 0.1; // 10% reduction per level
-    const initialTickRate = Constants.TICK_RATE_MS;
-  
-    // Use the formula for exponential decay to calculate the tick rate
-    const tickRate = initialTickRate * Math.pow(1 - tickRateReductionPercentage, level - 1);
-  
-    return tickRate;
-  }
+  // Pick how many upcoming pieces to show from the URL (e.g. ?preview=5), or use the default
+  const previewParam = Number(params.get("preview"));
+
+  // Pick the gravity curve (e.g. ?gravity=nes, or ?gravity=off to place pieces at leisure) and starting level (e.g. ?level=10) from the URL
+  const gravityParam = params.get("gravity") ?? "";
+  const levelParam = Number(params.get("level"));
+
+  // Pick the first game's mode from the URL (e.g. ?mode=sprint); the start menu picks the rest
+  const modeParam = params.get("mode") ?? "";
+
+  // Pick a puzzle from the URL as a fumen (e.g. ?puzzle=v115@...&goal=perfectClear); it is played unless another mode is asked for
+  const goalParam = params.get("goal") ?? "";
+  const puzzleParam = parsePuzzle(params.get("puzzle") ?? "", standardPieces.pieces.map(piece => piece.kind),
+    isPuzzleGoalName(goalParam) ? goalParam : undefined);
+
+  // Pick the built-in piece set from the URL (e.g. ?pieces=pentomino); a custom set is loaded from a file
+  const piecesParam = params.get("pieces") ?? "";
+
+  // Pick the board from the URL (e.g. ?width=4 for drills, or ?width=20&height=40&buffer=20), where
+  // new pieces appear (e.g. ?spawnx=0&spawny=2), whether the hold works (e.g. ?hold=off) and the lock delay
+  // (e.g. ?lock=1000), keeping the defaults for anything missing
+  const numberParam = (name: string, fallback: number) => {
+    const value = params.get(name);
+    return value !== null && Number(value) >= 0 ? Number(value) : fallback;
+  };
+  const spawnColumnParam = params.get("spawnx");
+
+  // Gravity can also be a table of G per level (e.g. ?gravity=0.02,0.05,0.1,1)
+  const gravityTable = gravityParam.split(",").map(Number);
+
+  // Set the player's handling from the URL (e.g. ?das=100&arr=0&sdf=40), keeping the defaults for anything missing
+  const handlingParam = (name: keyof Handling) => {
+    const value = params.get(name);
+    return value !== null && Number(value) >= 0 ? Number(value) : defaultConfig.handling[name];
+  };
+
+  const config: GameConfig = {
+    ...defaultConfig,
+    mode: isGameModeName(modeParam) ? modeParam : puzzleParam ? "puzzle" : defaultConfig.mode,
+    boardWidth: numberParam("width", defaultConfig.boardWidth),
+    boardHeight: numberParam("height", defaultConfig.boardHeight),
+    bufferHeight: numberParam("buffer", defaultConfig.bufferHeight),
+    spawnColumn: spawnColumnParam !== null && Number(spawnColumnParam) >= 0 ? Number(spawnColumnParam) : defaultConfig.spawnColumn,
+    spawnRow: numberParam("spawny", defaultConfig.spawnRow),
+    hold: params.get("hold") !== "off",
+    // Deal only ordinary pieces from the URL (e.g. ?specials=off)
+    specialChances: params.get("specials") === "off" ? noSpecialChances : defaultConfig.specialChances,
+    pieces: isPieceSetName(piecesParam) ? piecesParam : defaultConfig.pieces,
+    lockDelay: numberParam("lock", defaultConfig.lockDelay),
+    generator: isGeneratorName(generatorParam) ? generatorParam : defaultConfig.generator,
+    previewCount: previewParam || defaultConfig.previewCount,
+    // Turn the ghost piece off from the URL (e.g. ?ghost=off)
+    ghost: params.get("ghost") !== "off",
+    gravity: isGravityCurveName(gravityParam) ? gravityParam
+      : gravityParam !== "" && gravityTable.every(g => g > 0) ? gravityTable
+      : defaultConfig.gravity,
+    startLevel: levelParam > 0 ? Math.floor(levelParam) : defaultConfig.startLevel,
+    handling: { das: handlingParam("das"), arr: handlingParam("arr"), sdf: handlingParam("sdf") },
+    puzzle: puzzleParam ?? defaultConfig.puzzle,
+  };
+  // The leaderboards kept in localStorage, and the mode whose leaderboard is shown
+  const leaderboardsSubject = new BehaviorSubject<Leaderboards>(loadLeaderboards(window.localStorage));
+  const leaderboardModeSubject = new BehaviorSubject<GameModeName>(config.mode);
+
+  // Offer each mode in the start menu, starting with the first game's
+  Object.entries(GAME_MODES).forEach(([name, mode]) =>
+    modeSelect.add(new Option(mode.label, name, name === config.mode, name === config.mode)));
+  // Offer each built-in piece set, starting with the first game's; a loaded set is added as "custom"
+  Object.entries(BUILT_IN_PIECE_SETS).forEach(([name, set]) =>
+    pieceSetSelect.add(new Option(set.name, name, name === config.pieces, name === config.pieces)));
+  // Gravity can be turned off from the menu, going back to the first game's curve when turned on again
+  const fallingGravity = config.gravity === "off" ? defaultConfig.gravity : config.gravity;
+  gravityToggle.checked = config.gravity !== "off";
+  // Offer each puzzle goal, starting with the first puzzle's
+  Object.entries(PUZZLE_GOALS).forEach(([name, goal]) =>
+    puzzleGoal.add(new Option(goal.label, name, name === config.puzzle.goal, name === config.puzzle.goal)));
+  // The second board in versus is played by a person or by the AI at one of its difficulties
+  opponentSelect.add(new Option("Human", "human", true, true));
+  Object.entries(BOT_LEVELS).forEach(([name, level]) => opponentSelect.add(new Option(level.label, name)));
+
+  // The page opens on the start menu
+  const initialState: State = { ...createInitialState(initialSeed, config), phase: "menu" };
+  const stateSubject = new BehaviorSubject<State>(initialState);
+  seedText.textContent = `Seed: ${initialSeed}`;
+
+  // Tick once per frame; the gravity for the current level decides how far each tick moves the Tetrimino,
+  // and the AI players take their turns
+  const tick$ = interval(Constants.FRAME_MS).pipe(
+    withLatestFrom(replayPlayerSubject),
+    filter(([, player]) => player === null),
+    map((_): MatchAction => new TickMatch(Constants.FRAME_MS))
+  );
   
-  // Define the observables for each user input
-  const startMoveLeft$ = fromKey('KeyA').pipe(map(_ => new moveTetriminoLeft())); // Listen to A key for left movement
-  const startMoveRight$ = fromKey('KeyD').pipe(map(_ => new moveTetriminoRight())); // Listen to D key for right movement
-  const startMoveDown$ = fromKey('KeyS').pipe(map(_ => new moveTetriminoDown()));// Listen to S key for down movement
-  const startMoveRotate$ = fromKey('KeyW').pipe(map(_ => new Rotate())); // Listen to W key for rotation
-  const startDrop$ = fromKey('Space').pipe(map(_ => new instantDROP())); // Listen to spacebar for immediate drop
-  const restart$ = fromKey('KeyR').pipe(
-    map(() => {
-      const initialState = resetGame();
-      stateSubject.next(initialState); // Update the state subject with the new state
+  // Dragging the history scrubber undoes or redoes placements one at a time, as the keys would,
+  // so that replays go through the same steps
+  const historyPositionSubject = new BehaviorSubject<number>(0);
+  const scrubCommand$: Observable<PlayerCommand> = fromEvent(historyScrubber, "change").pipe(
+    // Let go of the focus, so that the keys play the game again
+    tap(_ => historyScrubber.blur()),
+    withLatestFrom(historyPositionSubject, replayPlayerSubject),
+    filter(([, , player]) => player === null),
+    mergeMap(([, position]) => {
+      const steps = Number(historyScrubber.value) - position;
+      const command: Command = steps < 0 ? "undo" : "redo";
+      return from(Array.from({ length: Math.abs(steps) }).flatMap(() =>
+        [{ player: 0, command, pressed: true }, { player: 0, command, pressed: false }]));
+    })
+  );
+
+  // Movement, rotation, drop and hold commands step the engine the same way live and in replays.
+  // People cannot move the pieces on a board the AI plays
+  // Each command carries the first player's game as it was before the command, for the replay recorder
+  const gameCommand$ = merge(command$, scrubCommand$).pipe(
+    withLatestFrom(botsSubject, stateSubject),
+    filter(([{ command, player }, bots]) => REPLAYED_COMMANDS.includes(command) && !bots[player]),
+    map(([change, , before]) => ({ change, before })),
+    share()
+  );
+  const commandAction$ = gameCommand$.pipe(
+    map(({ change: { player, ...change } }): MatchAction => new PlayerAction(player, { apply: s => step(s, change, 0) }))
+  );
+
+  // The piece set last loaded from a file, offered in the menu as "custom"
+  const customPieceSetSubject = new BehaviorSubject<PieceSet | null>(null);
+  fromEvent(pieceSetFile, "change").pipe(
+    mergeMap(() => from(pieceSetFile.files?.[0]?.text() ?? Promise.resolve(""))),
+    map(parsePieceSet),
+    tap(pieces => pieceSetMessage.textContent = pieces ? "" : "That file is not a piece set.")
+  ).subscribe(pieces => {
+    if (pieces) {
+      [...pieceSetSelect.options].filter(option => option.value === "custom").forEach(option => option.remove());
+      pieceSetSelect.add(new Option(pieces.name, "custom", true, true));
+      customPieceSetSubject.next(pieces);
+    }
+  });
+
+  // The puzzle the start button plays in the puzzle mode, replaced by loading one from the board panel
+  const puzzleSubject = new BehaviorSubject<Puzzle>(config.puzzle);
+
+  /**
+   * Gets the piece set chosen in the menu.
+   * @returns The built-in set's name, or the set loaded from a file.
+   */
+  const chosenPieces = (): PieceSetName | PieceSet =>
+    isPieceSetName(pieceSetSelect.value) ? pieceSetSelect.value : customPieceSetSubject.value ?? config.pieces;
+
+  // Restarting keeps the mode and pieces, while the start button starts a game of the mode, pieces and gravity chosen in the menus
+  const restartMode$: Observable<MenuChoice | null> = merge(
+    commandDown$("restart").pipe(map(_ => null)),
+    fromEvent(startButton, "click").pipe(map(_ => isGameModeName(modeSelect.value)
+      ? { mode: modeSelect.value, pieces: chosenPieces(), puzzle: puzzleSubject.value, gravity: gravityToggle.checked ? fallingGravity : "off" }
+      : null))
+  ).pipe(share());
+
+  // Every restart draws the seed of the next game from a random stream
+  const restartGame$ = zip(
+    restartMode$.pipe(scan((current: GameConfig, choice: MenuChoice | null) => choice ? { ...current, ...choice } : current, config)),
+    createRngStreamFromSource(restartMode$)(initialSeed).pipe(map(random => RNG.unscale(random)))
+  ).pipe(
+    map(([config, seed]) => ({ config, seed })),
+    share()
+  );
+  const restart$ = restartGame$.pipe(
+    map(({ seed, config }) => {
+      seedText.textContent = `Seed: ${seed}`; // Show the seed, so the game can be reproduced
       hide(gameover); // Hide the "game over" screen
-      return new Restart(); // Return the action for consistency
+      recordForm.hidden = true; // A record not saved by now is let go
+      leaderboardModeSubject.next(config.mode);
+      // In versus, the opponent chosen plays the second board
+      const opponent = isBotLevelName(opponentSelect.value) ? createBot(opponentSelect.value) : null;
+      return new StartMatch(seed, config, [null, opponent]); // Return the action for consistency
     })
   );
   
-  const togglePauseResume$ = fromKey('KeyP').pipe(
-    map(event => {
-      console.log('Key pressed:', event.code); // Add this line
-      return new TogglePauseResume();
+  // The pause key and the pause button both toggle pause
+  const togglePauseResume$ = merge(commandDown$("pause"), fromEvent(pauseButton, "click")).pipe(
+    map(_ => new EveryPlayer(new TogglePauseResume()))
+  );
+
+  // Pause when the window loses focus or the tab is hidden
+  const autoPause$ = merge(
+    fromEvent(window, "blur"),
+    fromEvent(document, "visibilitychange").pipe(filter(_ => document.hidden))
+  ).pipe(map(_ => new EveryPlayer(new Pause())));
+
+  // The reset button abandons the game and goes back to the start menu
+  const quit$ = fromEvent(resetButton, "click").pipe(
+    map(_ => {
+      recordForm.hidden = true;
+      return new QuitMatch();
     })
   );
+
+  // When the menu is left alone, the AI plays a demo game. Any key or click ends it, and
+  // so does the demo game ending, a moment later
+  const activity$ = merge(input$.pipe(filter(({ pressed }) => pressed)), fromEvent(document, "click")).pipe(share());
+  const demoStart$ = merge(activity$, phaseSubject.pipe(filter(phase => phase === "menu"))).pipe(
+    switchMap(_ => timer(Demo.IDLE_MS)),
+    withLatestFrom(phaseSubject, replayPlayerSubject),
+    filter(([, phase, player]) => phase === "menu" && player === null),
+    map(_ => new StartMatch(Date.now(), { ...config, mode: Demo.MODE }, [createBot(Demo.LEVEL)]))
+  );
+  const demoEnd$ = merge(
+    activity$,
+    phaseSubject.pipe(filter(phase => phase === "gameOver"), switchMap(_ => timer(Demo.GAME_OVER_MS)))
+  ).pipe(map(_ => new EndDemo()));
   
  // Define the observable for all user inputs
-  const actionForKey$: Observable<ActionForKey> = merge(
+  const matchAction$: Observable<MatchAction> = merge(
     tick$, 
-    startMoveLeft$, 
-    startMoveRight$, 
-    startMoveDown$, 
-    startMoveRotate$, 
-    startDrop$,
+    commandAction$,
     restart$,
-    togglePauseResume$
+    togglePauseResume$,
+    autoPause$,
+    quit$,
+    demoStart$,
+    demoEnd$
   );
   
-  // Define the state observable
-  const state$ = actionForKey$.pipe(
-    scan((s: State, action: ActionForKey) => action.apply(s), initialState)
+  // Define the match observable; the sidebar, replays and leaderboards follow the first player's game
+  const match$ = matchAction$.pipe(
+    scan(reduceMatch, createMatch([initialState])),
+    share()
+  );
+  const state$ = match$.pipe(map(m => m.players[0]));
+  state$.subscribe(stateSubject);
+  match$.pipe(map(m => m.players.length), distinctUntilChanged()).subscribe(playersSubject);
+  match$.pipe(map(m => m.players.map((_, i) => isBot(m, i)))).subscribe(botsSubject);
+  state$.pipe(map(s => s.phase), distinctUntilChanged()).subscribe(phaseSubject);
+
+  // The live game is only shown while no replay is being watched
+  const liveState$ = state$.pipe(
+    withLatestFrom(replayPlayerSubject),
+    filter(([, player]) => player === null),
+    map(([state]) => state)
+  );
+
+  // The scrubber steps from the placement the live game is on
+  liveState$.pipe(map(s => s.history ? historyPosition(s.history) : 0), distinctUntilChanged()).subscribe(historyPositionSubject);
+
+  // The hint: where the AI would put the current piece, worked out once for each new piece or board
+  const hintSubject = new BehaviorSubject<Placement | null>(null);
+  combineLatest([
+    liveState$.pipe(distinctUntilChanged((a, b) =>
+      a.grid === b.grid && a.phase === b.phase && a.holdUsed === b.holdUsed && a.currentTetrimino.kind === b.currentTetrimino.kind)),
+    // Let go of the focus, so that the keys play the game again
+    fromEvent(hintToggle, "change").pipe(tap(_ => hintToggle.blur()), map(_ => hintToggle.checked), startWith(hintToggle.checked)),
+    botsSubject
+  ]).pipe(
+    map(([s, enabled, bots]) => enabled && !bots[0] && s.phase === "playing" ? bestPlacement(s, BOT_LEVELS[Demo.LEVEL].weights) : null)
+  ).subscribe(hintSubject);
+
+  /** Replays */
+
+  // Record the commands of the current game, starting a new recording on every restart
+  const recording$ = merge(
+    restartGame$.pipe(map(({ seed, config }) => (_: Replay) => startRecording(seed, config))),
+    gameCommand$.pipe(
+      // Only the commands the game acts on are recorded, stamped with the frame they were played on
+      filter(({ change, before }) => change.player === 0 && acceptsCommand(before, change)),
+      map(({ change: { command, pressed }, before }) => (replay: Replay) => recordCommand(replay, before.frame, command, pressed))
+    )
+  ).pipe(
+    scan((replay: Replay, update: (replay: Replay) => Replay) => update(replay), startRecording(initialSeed, config)),
+    startWith(startRecording(initialSeed, config))
+  );
+
+  // Download the game so far as a replay file
+  fromEvent(replayDownload, "click").pipe(
+    withLatestFrom(recording$, state$),
+    map(([, replay, s]) => finishRecording(replay, s.frame, { score: s.userScore, lines: s.lines }))
+  ).subscribe(replay => {
+    const link = document.createElement("a");
+    link.href = URL.createObjectURL(new Blob([serialiseReplay(replay)], { type: "application/json" }));
+    link.download = `tetris-replay-${replay.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  });
+
+  /**
+   * Gets the board and pieces of a game, as a puzzle with the goal chosen in the board panel.
+   * @param s - The game state.
+   * @returns The puzzle: the board, the current piece followed by the queue, and the held piece.
+   */
+  const puzzleOf = (s: State): Puzzle => ({
+    rows: rowsFromGrid(s.grid),
+    queue: [s.currentTetrimino, ...s.queue].map(t => t.kind),
+    hold: s.heldTetrimino?.kind ?? null,
+    goal: isPuzzleGoalName(puzzleGoal.value) ? puzzleGoal.value : defaultConfig.puzzle.goal,
+  });
+
+  // Copy the board out as text or as a fumen, to share or to turn into a puzzle
+  fromEvent(boardExport, "click").pipe(withLatestFrom(state$)).subscribe(([, s]) => {
+    boardText.value = serialisePuzzle(puzzleOf(s));
+    boardMessage.textContent = "";
+  });
+  fromEvent(fumenExport, "click").pipe(withLatestFrom(state$)).subscribe(([, s]) => {
+    const fumen = encodeFumen(puzzleOf(s));
+    boardText.value = fumen ?? boardText.value;
+    boardMessage.textContent = fumen ? "" : "Only boards 10 wide and up to 23 high can be written as a fumen.";
+  });
+
+  // Load a puzzle from board text or a fumen, to play from the start menu
+  fromEvent(puzzleLoad, "click").pipe(
+    withLatestFrom(state$),
+    map(([, s]) => parsePuzzle(boardText.value, piecesOf(s).pieces.map(piece => piece.kind),
+      isPuzzleGoalName(puzzleGoal.value) ? puzzleGoal.value : undefined))
+  ).subscribe(puzzle => {
+    boardMessage.textContent = puzzle ? "Puzzle loaded: press Start to play it." : "That is not a board with pieces to play.";
+    if (puzzle) {
+      puzzleSubject.next(puzzle);
+      modeSelect.value = "puzzle";
+      puzzleGoal.value = puzzle.goal;
+    }
+  });
+
+  // Load a replay file, then play, pause, seek and change speed, one frame at a time
+  const loadedReplay$ = fromEvent(replayFile, "change").pipe(
+    mergeMap(() => from(replayFile.files?.[0]?.text() ?? Promise.resolve(""))),
+    map(parseReplay),
+    tap(replay => replayMessage.textContent = replay ? "" : "That file is not a replay.")
   );
+  merge(
+    loadedReplay$.pipe(map(replay => (player: ReplayPlayer | null) => replay ? openReplay(replay) : player)),
+    fromEvent(replayPlay, "click").pipe(map(() => (player: ReplayPlayer | null) =>
+      player && (player.position >= player.replay.frames ? { ...seekReplay(player, 0), playing: true } : { ...player, playing: !player.playing }))),
+    fromEvent(replaySeek, "input").pipe(map(() => (player: ReplayPlayer | null) => player && seekReplay(player, Number(replaySeek.value)))),
+    fromEvent(replaySpeed, "change").pipe(map(() => (player: ReplayPlayer | null) => player && { ...player, speed: Number(replaySpeed.value) })),
+    fromEvent(replayExit, "click").pipe(map(() => (_: ReplayPlayer | null) => null)),
+    interval(Constants.FRAME_MS).pipe(map(() => (player: ReplayPlayer | null) => player && advanceReplay(player, 1)))
+  ).pipe(
+    scan((player: ReplayPlayer | null, update: (player: ReplayPlayer | null) => ReplayPlayer | null) => update(player), null)
+  ).subscribe(replayPlayerSubject);
+
+  // Rebuild the replayed game at the player's frame, continuing from the last frame shown when playing forwards
+  replayPlayerSubject.pipe(
+    scan((shown: { player: ReplayPlayer, frame: number, state: State } | null, player: ReplayPlayer | null) => {
+      if (player === null) {
+        return null;
+      }
+      const frame = replayFrame(player);
+      const from = shown && shown.player.replay === player.replay && shown.frame <= frame ? shown : undefined;
+      return { player, frame, state: replayState(player.replay, frame, from) };
+    }, null)
+  ).subscribe(shown => {
+    replayPlayerControls.style.display = shown ? "" : "none";
+    replayExit.disabled = !shown;
+    if (!shown) {
+      return;
+    }
+    const { player, frame, state } = shown;
+    render(state);
+    renderPreview(preview, state.queue, piecesOf(state));
+    renderHold(holdPreview, state);
+    replayPlay.textContent = player.playing ? "Pause" : "Play";
+    replaySpeed.value = `${player.speed}`;
+    replaySeek.max = `${player.replay.frames}`;
+    replaySeek.value = `${frame}`;
+
+    // Check the replay reproduces the recorded result once it reaches the end
+    const result = player.replay.result;
+    replayMessage.textContent = frame < player.replay.frames || result === null ? ""
+      : state.userScore === result.score && state.lines === result.lines ? "Replay matches the recorded score."
+      : "Replay does not match the recorded score.";
+  });
 
   // Subscribe to the state observable
-  state$.subscribe(state => {
+  liveState$.subscribe(state => {
     // Inside this callback, you can handle the state updates
     // For example, you can call your render function here
     render(state);
-    renderPreview(state.nextTetrimino);
+    renderPreview(preview, state.queue, piecesOf(state));
+    renderHold(holdPreview, state);
   });
 
-
-
   /**
    * Adds a block to the SVG.
+   * @param {SVGGraphicsElement} target - The board to add the block to.
    * @param {number} x - The X-coordinate of the block.
    * @param {number} y - The Y-coordinate of the block.
    * @param {string} color - The color of the block.
    */
-  const addBlock = (x: number, y: number, color: string) => {
-    const blockClump = createSvgElement(svg.namespaceURI, "rect", {
+  const addBlock = (target: SVGGraphicsElement, x: number, y: number, color: string) => {
+    const blockClump = createSvgElement(target.namespaceURI, "rect", {
       height: `${Block.HEIGHT}`,
       width: `${Block.WIDTH}`,
       x: `${Block.WIDTH * x}`,
       y: `${Block.HEIGHT * y}`,
       style: `fill: ${color}`,
     });
-    svg.appendChild(blockClump);
+    target.appendChild(blockClump);
   };
 
-
   /**
-   * Resets the game state to its initial values.
-   * @returns {State} The updated game state after resetting.
+   * Adds a translucent outline of a block to the SVG, used for the ghost piece.
+   * @param {SVGGraphicsElement} target - The board to add the outline to.
+   * @param {number} x - The X-coordinate of the block.
+   * @param {number} y - The Y-coordinate of the block.
+   * @param {string} color - The color of the outline.
    */
-  function resetGame(): State {
-    return {
-      grid: Array.from({ length: Constants.GRID_HEIGHT }, () => Array(Constants.GRID_WIDTH).fill(false)),
-      currentTetrimino: generateANewTetrimino(),
-      nextTetrimino: generateANewTetrimino(),
-      gameOver: true,
-      userScore: 0,
-      userLevel: 1,
-      highScore: 0,
-      paused: false,
-    };
-  }
-  
+  const addGhostBlock = (target: SVGGraphicsElement, x: number, y: number, color: string) => {
+    const ghost = createSvgElement(target.namespaceURI, "rect", {
+      height: `${Block.HEIGHT}`,
+      width: `${Block.WIDTH}`,
+      x: `${Block.WIDTH * x}`,
+      y: `${Block.HEIGHT * y}`,
+      style: `fill: transparent; stroke: ${color}; stroke-opacity: 0.6`,
+    });
+    target.appendChild(ghost);
+  };
+
   // Renders a row of blocks
-  const renderForEachRow = (row: boolean[], y: number) => {
+  const renderForEachRow = (target: SVGGraphicsElement, row: Cell[], y: number, pieces: PieceSet) => {
     row.forEach((cell, x) => {
-      // Use RGBA notation to set the color with opacity
-      const color = cell ? 'rgba(255, 255, 255, 0.5)' : 'transparent'; // White with 50% opacity for frozen blocks, transparent for empty blocks
-      addBlock(x, y, color);
+      // Locked blocks keep the colour of the piece they came from, empty blocks are transparent
+      const color = cell ? cellColor(cell, pieces) : 'transparent';
+      addBlock(target, x, y, color);
     });
   };
-  
+
+  /**
+   * Draws a game's board: the locked blocks, the ghost of the current piece and the current piece.
+   * The canvas fits the board's shown rows; the hidden rows above them are not drawn.
+   * @param target - The board to draw into.
+   * @param s - The game state.
+   */
+  const renderBoard = (target: SVGGraphicsElement, s: State) => {
+    target.innerHTML = '';  // Clear previous blocks
+    const { boardWidth, boardHeight, bufferHeight } = s.config;
+    target.setAttribute("width", `${boardWidth * Block.WIDTH}`);
+    target.setAttribute("height", `${boardHeight * Block.HEIGHT}`);
+
+    // Render static blocks on the grid
+    s.grid.slice(bufferHeight).forEach((row, y) => renderForEachRow(target, row, y, piecesOf(s)));
+
+    // Render the ghost of the current piece where it will land
+    if (s.config.ghost) {
+      shownBlocks(s, landingPosition(s.currentTetrimino, s.grid, piecesOf(s)))
+        .forEach(block => addGhostBlock(target, block.x, block.y, block.color));
+    }
+
+    // Render the current moving piece
+    shownBlocks(s, s.currentTetrimino).forEach(block => addBlock(target, block.x, block.y, block.color));
+  };
+
+  /**
+   * Gets the blocks of a Tetrimino that are in the shown rows of a board, in the canvas's rows.
+   * @param s - The game state.
+   * @param tetrimino - The Tetrimino.
+   * @returns The blocks below the hidden rows.
+   */
+  const shownBlocks = (s: State, tetrimino: Tetrimino): Block[] =>
+    tetriminoBlocks(tetrimino, piecesOf(s))
+      .map(block => ({ ...block, y: block.y - s.config.bufferHeight }))
+      .filter(block => block.y >= 0);
+
+  /**
+   * Outlines where the AI would put the current piece.
+   * @param target - The board to draw into.
+   * @param s - The game state.
+   * @param hint - The AI's placement, or `null` for no hint.
+   */
+  const renderHint = (target: SVGGraphicsElement, s: State, hint: Placement | null) =>
+    hint && shownBlocks(s, hint.tetrimino).forEach(({ x, y }) => addGhostBlock(target, x, y, "white"));
+
+  /**
+   * Draws the incoming garbage meter beside a board: a bar as tall as the rows waiting to rise.
+   * @param meter - The meter to draw into.
+   * @param s - The game state.
+   */
+  const renderMeter = (meter: SVGGraphicsElement, s: State) => {
+    meter.innerHTML = '';
+    const height = s.config.boardHeight * Block.HEIGHT;
+    meter.setAttribute("height", `${height}`);
+    const incoming = Math.min(s.garbage.pending.reduce((total, lines) => total + lines, 0), s.config.boardHeight);
+    meter.appendChild(createSvgElement(meter.namespaceURI, "rect", {
+      height: `${incoming * Block.HEIGHT}`,
+      width: `${Viewport.METER_WIDTH}`,
+      x: "0",
+      y: `${height - incoming * Block.HEIGHT}`,
+      style: "fill: red",
+    }));
+  };
 
   /**
    * Renders the current state to the canvas.
@@ -863,117 +969,251 @@ export function main() {
    * @param s Current state
    */
   const render = (s: State) => {
-    svg.innerHTML = '';  // Clear previous blocks
+    renderBoard(svg, s);
+    renderHint(svg, s, hintSubject.value);
     svg.appendChild(gameover);
-  
-    // Render static blocks on the grid
-    s.grid.forEach((row, y) => renderForEachRow(row, y));
-  
-    // Render the current moving piece
-    s.currentTetrimino.forEach(block => {
-      const color = block.color === 'gold' ? 'gold' : block.color;
-      addBlock(block.x, block.y, color);
-    });
+    svg.appendChild(phaseOverlay);
 
-    // Check if there are gold Tetriminos in the current state
-    const hasGoldTetriminos = s.currentTetrimino.some((block) => block.color === 'gold');
+    // Announce special pieces as they are dealt, and what their blocks did when a clear set them off
+    specialMessageText.textContent = s.lastSpecial ? specialMessage(s.lastSpecial) : "";
+    specialMessageText.classList.toggle("triggered", s.lastSpecial?.type === "triggered");
+    messageContainer.style.visibility = s.lastSpecial ? "visible" : "hidden";
 
-    // Check if gold Tetriminos are involved in a completed line
-    const goldTetriminosInLine = s.grid.some((row) =>
-      row.every((cell, x) => cell && s.currentTetrimino.some((block) => block.color === 'gold' && block.x === x))
-    );
+    // Announce what the last lock scored
+    clearMessage.textContent = s.lastClear ? `${s.lastClear.label} +${s.lastClear.points}` : '';
 
-    // Get the message container element
-    const messageContainer = document.querySelector("#messageContainer")!;
+    // Show the statistics the mode uses
+    const mode = GAME_MODES[s.config.mode];
+    Object.entries(statRows).forEach(([stat, row]) => row.hidden = !mode.stats.includes(stat as Stat));
+    scoreText.textContent = `${s.userScore}`;
+    levelText.textContent = `${s.userLevel}`;
+    linesText.textContent = mode.lineGoal !== null ? `${s.lines}/${mode.lineGoal}` : `${s.lines}`;
+    // Timed modes count down, the others count up
+    timeText.textContent = formatDuration(mode.timeLimit !== null ? mode.timeLimit - s.elapsed : s.elapsed);
+    // The puzzle's goal
+    goalText.textContent = PUZZLE_GOALS[s.config.puzzle.goal].label;
+    // Garbage cleared, out of the mode's total if it has one
+    garbageText.textContent = mode.garbage?.total ? `${s.garbage.cleared}/${mode.garbage.total}` : `${s.garbage.cleared}`;
+
+    // The scrubber sits at the current placement, among those that can be undone and redone
+    historyPanel.hidden = s.history === null;
+    if (s.history) {
+      const last = historyStates(s.history).length - 1;
+      historyScrubber.max = `${last}`;
+      historyScrubber.value = `${historyPosition(s.history)}`;
+      historyText.textContent = `${historyPosition(s.history)}/${last}`;
+    }
 
-    // Get the message element
-    const goldTetriminoMessage = document.querySelector("#goldTetriminoMessage")!;
+    // The best game to beat: the fastest time in modes ranked by time, otherwise the highest score
+    const best = bestEntry(leaderboardsSubject.value, s.config.mode);
+    highScoreText.textContent = mode.rankBy === "time"
+      ? (best ? formatDuration(best.duration) : "-")
+      : `${Math.max(s.highScore, best?.score ?? 0)}`;
+  };
 
+  /**
+   * Function to render the queue of upcoming Tetriminos as a stacked preview.
+   * @param {SVGGraphicsElement} target - The preview to render into.
+   * @param {Tetrimino[]} queue - The upcoming Tetriminos, next one first.
+   * @param {PieceSet} pieces - The piece set the Tetriminos come from.
+   */
+  function renderPreview(target: SVGGraphicsElement, queue: Tetrimino[], pieces: PieceSet) {
+    // Size the preview SVG to fit one slot per Tetrimino
+    target.setAttribute("height", `${Viewport.PREVIEW_SLOT_HEIGHT * queue.length}`);
+    renderSlots(target, queue, 1, pieces);
+  }
 
-    // Display appropriate messages based on conditions
-    if (hasGoldTetriminos) {
-      goldTetriminoMessage.textContent = "A WILD GOLD TETRIMINO APPEARED!";
-      (messageContainer as HTMLElement).style.visibility = "visible"; // Show the message container
-    } else if (goldTetriminosInLine) {
-      // Determine the multiplier based on the number of gold Tetriminos in the line
-      const goldCountInLine = s.grid
-        .flatMap((row, y) =>
-          row.map((cell, x) => (cell && s.currentTetrimino.some((block) => block.color === 'gold' && block.x === x && block.y === y)))
-        )
-        .filter(Boolean).length;
+  /**
+   * Function to render the held Tetrimino, dimmed while the hold cannot be used or is turned off.
+   * @param {SVGGraphicsElement} target - The hold slot to render into.
+   * @param {State} s - The current game state.
+   */
+  function renderHold(target: SVGGraphicsElement, s: State) {
+    renderSlots(target, s.heldTetrimino ? [s.heldTetrimino] : [], s.holdUsed || !s.config.hold ? 0.4 : 1, piecesOf(s));
+  }
 
-      goldTetriminoMessage.textContent = `${goldCountInLine}X POINTS!`;
-      goldTetriminoMessage.classList.add('x2'); // Add the 'x2' class for styling
-      (messageContainer as HTMLElement).style.visibility = "visible"; // Show the message container
-    } else {
-      // No gold Tetrimino-related message to display
-      goldTetriminoMessage.textContent = "";
-      (messageContainer as HTMLElement).style.visibility = "hidden"; // Hide the message container
+  /**
+   * Shows the parts of the page that belong to a versus match: the second player's board,
+   * the incoming garbage meters and, once the match is decided, its result.
+   * @param m - The current match.
+   */
+  function renderMatch(m: Match) {
+    const versus = m.players.length > 1;
+    opponentView.hidden = !versus;
+    container.classList.toggle("versus", versus);
+    garbageMeter.style.display = versus ? "" : "none";
+    // Replays follow a single board a person plays, so versus matches and demos are not recorded
+    replayDownload.disabled = versus || isBot(m, 0);
+    demoMessage.hidden = !isBot(m, 0);
+
+    renderMeter(garbageMeter, m.players[0]);
+    const opponent = m.players[1];
+    if (opponent) {
+      renderBoard(opponentSvg, opponent);
+      renderPreview(opponentPreview, opponent.queue, piecesOf(opponent));
+      renderHold(opponentHold, opponent);
+      renderMeter(opponentGarbageMeter, opponent);
+      opponentScoreText.textContent = `${opponent.userScore}`;
+      opponentLinesText.textContent = `${opponent.lines}`;
     }
 
-
-    // Render the preview of the next Tetrimino
-    scoreText.textContent = `${s.userScore}`;
-    levelText.textContent = `${s.userLevel}`;
-    highScoreText.textContent = `${s.highScore}`;
-  };
-
-
+    // The result stays up until a new match starts or the players go back to the menu
+    matchResult.hidden = m.result === null || m.players.some(s => s.phase !== "gameOver");
+    matchResultText.textContent = m.result?.winner == null ? "Draw!" : `Player ${m.result.winner + 1} wins!`;
+  }
 
   /**
-   * Function to render the preview of the next Tetrimino
-   * @param {boolean[]} row - An array representing the row of blocks.
-   * @param {number} y - The y-coordinate of the row.
+   * Function to render Tetriminos stacked in an SVG, each one centred in its own slot.
+   * @param {SVGGraphicsElement} target - The SVG to render into.
+   * @param {Tetrimino[]} tetriminos - The Tetriminos to render, top slot first.
+   * @param {number} opacity - The opacity of the rendered blocks.
    */
-  function renderPreview(tetrimino: Tetrimino) {
-    // Clear the preview SVG
-    preview.innerHTML = '';
-
-    // Calculate the position and size of the preview Tetrimino
-    const previewBlockSize = Block.WIDTH / 2; // Adjust the size as needed
-    const previewX = 0; // Adjust the X position as needed
-    const previewY = 0; // Adjust the Y position as needed
-
-    // Render each block of the next Tetrimino in the preview SVG
-    tetrimino.forEach((block) => {
-      const { x, y, color } = block; // Get the block properties
-      // const previewX = 12; // Adjust the X position for the preview bar
-      // const previewY = 1; // Adjust the Y position for the preview bar
-      const svgElement = createSvgElement(preview.namespaceURI, "rect", {
-        height: `${Block.HEIGHT / 2}`, // Adjust the size for the preview bar
-        width: `${Block.WIDTH / 2}`, // Adjust the size for the preview bar
-        x: `${Block.WIDTH * (block.x)}`,
-        y: `${Block.HEIGHT * (block.y)}`,
-        style: `fill: ${color}`,
+  function renderSlots(target: SVGGraphicsElement, tetriminos: Tetrimino[], opacity: number, pieces: PieceSet) {
+    // Clear the SVG
+    target.innerHTML = '';
+
+    const size = Viewport.PREVIEW_BLOCK_SIZE;
+
+    // Render each Tetrimino in its own slot
+    tetriminos.forEach((tetrimino, slot) => {
+      // Move the Tetrimino to the origin so its board position does not matter
+      const normalised = normaliseTetrimino(tetrimino, pieces);
+      const width = Math.max(...normalised.map(block => block.x)) + 1;
+      const height = Math.max(...normalised.map(block => block.y)) + 1;
+
+      // Centre the Tetrimino within its slot
+      const offsetX = (Viewport.PREVIEW_WIDTH - width * size) / 2;
+      const offsetY = slot * Viewport.PREVIEW_SLOT_HEIGHT + (Viewport.PREVIEW_SLOT_HEIGHT - height * size) / 2;
+
+      normalised.forEach(({ x, y, color }) => {
+        const svgElement = createSvgElement(target.namespaceURI, "rect", {
+          height: `${size}`,
+          width: `${size}`,
+          x: `${offsetX + size * x}`,
+          y: `${offsetY + size * y}`,
+          style: `fill: ${color}; opacity: ${opacity}`,
+        });
+        target.appendChild(svgElement);
       });
-      preview.appendChild(svgElement);
     });
   }
-  
 
   /**
-   * Create a subject for managing state updates
-   *
-   * @returns {void}
+   * Displays the "game over" screen. The game stays over until the player restarts.
+   * @param s - The final game state.
    */
-  const stateSubject: Subject<State> = new Subject<State>();
-
-  function handleGameOver() {
-    // Display the "game over" screen
+  function handleGameOver(s: State) {
+    gameOverText.textContent = GAME_MODES[s.config.mode].puzzle ? (s.won ? "Solved!" : "Failed")
+      : !s.won ? "Game Over"
+      : GAME_MODES[s.config.mode].players > 1 ? "Winner!"
+      : "Complete!";
     show(gameover);
-  
-    // Delay for a short duration (e.g., 2 seconds) to let the "game over" text display
-    setTimeout(() => {
-      // Reset the game state to its initial state and preserve the high score
-      const initialState = { ...resetGame(), highScore: (stateSubject as any).value.highScore };
-      stateSubject.next(initialState); // Update the state subject with the new state
-  
-      // Hide the "game over" screen
+  }
+
+  /**
+   * Shows where the game is in its lifecycle: the menu prompt, the countdown, the pause
+   * message or the "game over" screen over the board, and which buttons apply.
+   * @param s - The current game state.
+   */
+  function renderPhase(s: State) {
+    if (s.phase === "gameOver") {
+      handleGameOver(s);
+    } else {
       hide(gameover);
-    }, 2000); // Adjust the delay time as needed
+    }
+
+    const message = s.phase === "menu" ? "Choose a mode and press Start"
+      : s.phase === "countdown" ? `${countdownSeconds(s.countdown)}`
+      : s.phase === "paused" ? "Paused"
+      : null;
+    if (message !== null) {
+      phaseText.textContent = message;
+      show(phaseOverlay);
+    } else {
+      hide(phaseOverlay);
+    }
+
+    pauseButton.textContent = s.phase === "paused" ? "Resume" : "Pause";
+    pauseButton.disabled = s.phase !== "playing" && s.phase !== "paused";
+    resetButton.disabled = s.phase === "menu";
   }
-  
-  
+
+  /** Leaderboards */
+
+  /**
+   * Renders a mode's leaderboard as a table, best game first.
+   * @param leaderboards - Every leaderboard.
+   * @param mode - The mode to show.
+   */
+  const renderLeaderboard = ([leaderboards, mode]: [Leaderboards, GameModeName]) => {
+    leaderboardTitle.textContent = `${GAME_MODES[mode].label} leaderboard`;
+    leaderboardTable.innerHTML = '';
+    const header = document.createElement("tr");
+    ["#", "Name", "Score", "Lines", "Level", "Time", "Date"].forEach(title => {
+      const cell = document.createElement("th");
+      cell.textContent = title;
+      header.appendChild(cell);
+    });
+    leaderboardTable.appendChild(header);
+
+    leaderboardFor(leaderboards, mode).forEach((entry, rank) => {
+      const row = document.createElement("tr");
+      [
+        `${rank + 1}`, entry.name, `${entry.score}`, `${entry.lines}`, `${entry.level}`,
+        formatDuration(entry.duration), new Date(entry.date).toLocaleDateString(),
+      ].forEach(text => {
+        const cell = document.createElement("td");
+        cell.textContent = text;
+        row.appendChild(cell);
+      });
+      leaderboardTable.appendChild(row);
+    });
+  };
+  combineLatest([leaderboardsSubject, leaderboardModeSubject]).subscribe(renderLeaderboard);
+
+  // Open the leaderboard from the "game over" screen, and close it again
+  fromEvent(leaderboardLink, "click").subscribe(() => leaderboardPanel.hidden = false);
+  fromEvent(leaderboardClose, "click").subscribe(() => leaderboardPanel.hidden = true);
+
+  // When a game ends with a score good enough for the leaderboard, ask the player's name
+  const record$ = liveState$.pipe(
+    pairwise(),
+    filter(([previous, s]) => previous.phase !== "gameOver" && s.phase === "gameOver"),
+    map(([, s]) => s),
+    // Modes ranked by time only count games that reach the goal, and versus matches, games that can undo
+    // placements, such as puzzles and practice, games without gravity, demos and games dealt other pieces
+    // than the standard ones are not ranked
+    filter(s => {
+      const { rankBy, players, history } = GAME_MODES[s.config.mode];
+      return players === 1 && history === 0 && s.config.gravity !== "off" && !botsSubject.value[0] && s.config.pieces === "standard" && (rankBy === "score" || s.won) && isRecord(leaderboardsSubject.value, s.config.mode, { score: s.userScore, duration: s.elapsed }, rankBy);
+    }),
+    share()
+  );
+  record$.subscribe(() => {
+    leaderboardPanel.hidden = false;
+    recordForm.hidden = false;
+    recordName.focus();
+  });
+
+  // Save the record under the name given
+  fromEvent<SubmitEvent>(recordForm, "submit").pipe(
+    tap(event => event.preventDefault()),
+    withLatestFrom(record$),
+    map(([, s]) => addEntry(leaderboardsSubject.value, s.config.mode, {
+      name: recordName.value.trim() || "Anonymous",
+      score: s.userScore,
+      lines: s.lines,
+      level: s.userLevel,
+      duration: s.elapsed,
+      date: new Date().toISOString(),
+    }, GAME_MODES[s.config.mode].rankBy))
+  ).subscribe(leaderboards => {
+    recordForm.hidden = true;
+    recordName.blur();
+    saveLeaderboards(window.localStorage, leaderboards);
+    leaderboardsSubject.next(leaderboards);
+  });
+
   /**
    * Initializes and controls background music playback.
    * @listens DOMContentLoaded
@@ -1022,19 +1262,22 @@ export function main() {
     }
   });
 
+  // Show the rest of a versus match alongside the first player's game
+  match$.pipe(
+    withLatestFrom(replayPlayerSubject),
+    filter(([, player]) => player === null),
+    map(([m]) => m)
+  ).subscribe(renderMatch);
+
   // Subscribe to the state observable
-  const source$ = state$.subscribe((s: State) => {
-    if (s.gameOver) {
-      handleGameOver();
-    } else {
-      hide(gameover);
-    }
+  const source$ = liveState$.subscribe((s: State) => {
     render(s);
-    renderPreview(s.nextTetrimino);
+    renderPreview(preview, s.queue, piecesOf(s));
+    renderHold(holdPreview, s);
+    renderPhase(s);
   });
 }
 
-  
 // The following simply runs your main function on window load.  Make sure to leave it in place.
 if (typeof window !== "undefined") {
   window.onload = () => {
@@ -0,0 +1,191 @@
+/** Matches: the boards being played at once, one on its own or two in versus sending each other garbage */
+
+import { advanceBot, Bot } from "./ai";
+import { ActionForKey, actionForCommand, Quit, QueueGarbage, reduceState, Restart, State, Tick } from "./engine";
+import { GAME_MODES } from "./modes";
+import { GameConfig } from "./types";
+import { RNG } from "./util";
+
+/**
+ * How a versus match ended.
+ *
+ * @param winner - The index of the player who won, or `null` for a draw.
+ */
+export type MatchResult = { winner: number | null };
+
+/**
+ * The boards being played, first player first.
+ *
+ * @param players - Each player's game.
+ * @param result - How the match ended, or `null` while it is still going or for a single board.
+ * @param bots - The AI playing each board, or `null` for a board a person plays.
+ */
+export type Match = {
+  players: readonly State[],
+  result: MatchResult | null,
+  bots: readonly (Bot | null)[],
+};
+
+/**
+ * Something that changes a match, just as an `ActionForKey` changes a single game.
+ */
+export type MatchAction = { apply: (m: Match) => Match };
+
+/**
+ * Creates a match from games already set up.
+ * @param players - Each player's game.
+ * @param bots - The AI playing each board; boards without one are played by people.
+ * @returns The match.
+ */
+export const createMatch = (players: readonly State[], bots: readonly (Bot | null)[] = []): Match =>
+  ({ players, result: null, bots: players.map((_, i) => bots[i] ?? null) });
+
+/**
+ * Checks whether a board is played by the AI.
+ * @param m - The match.
+ * @param player - The board's index.
+ * @returns `true` if the AI plays the board.
+ */
+export const isBot = (m: Match, player: number): boolean => (m.bots[player] ?? null) !== null;
+
+/**
+ * Gets the seed of a player's game, so that each board in a match has its own.
+ * @param seed - The match's seed, used as it is by the first player.
+ * @param player - The player's index.
+ * @returns The player's seed.
+ */
+export const playerSeed = (seed: number, player: number): number =>
+  Array.from({ length: player }).reduce<number>(hash => RNG.hash(hash), seed);
+
+/**
+ * Decides a versus match once a board tops out: the other player wins, or it is a draw if both went out together.
+ * The winner's game stops too.
+ * @param m - The match after an action.
+ * @returns The match, with its result once it has one.
+ */
+const settleMatch = (m: Match): Match => {
+  if (m.players.length < 2 || m.result !== null) {
+    return m;
+  }
+  const out = m.players.map(s => s.phase === "gameOver");
+  if (!out.some(Boolean)) {
+    return m;
+  }
+  const winner = out.every(Boolean) ? null : out.indexOf(false);
+  return {
+    ...m,
+    players: m.players.map((s, i) => i === winner ? { ...s, phase: "gameOver", won: true } : s),
+    result: { winner },
+  };
+};
+
+/**
+ * Applies an action to one player's game. Garbage the player sends is queued on the opponent's board.
+ * @implements {MatchAction}
+ */
+export class PlayerAction implements MatchAction {
+  // The player's index and the action are passed as parameters
+  constructor(public readonly player: number, public readonly action: ActionForKey) {}
+
+  apply(m: Match): Match {
+    const before = m.players[this.player];
+    if (before === undefined) {
+      return m;
+    }
+    const after = reduceState(before, this.action);
+    const sent = after.garbage.sent - before.garbage.sent;
+    return settleMatch({
+      ...m,
+      players: m.players.map((s, i) =>
+        i === this.player ? after
+          : sent > 0 ? reduceState(s, new QueueGarbage(sent))
+          : s),
+    });
+  }
+}
+
+/**
+ * Applies an action, such as a tick or a pause, to every player's game in turn.
+ * @implements {MatchAction}
+ */
+export class EveryPlayer implements MatchAction {
+  // The action is passed as a parameter
+  constructor(public readonly action: ActionForKey) {}
+
+  apply(m: Match): Match {
+    return m.players.reduce((acc, _, i) => new PlayerAction(i, this.action).apply(acc), m);
+  }
+}
+
+/**
+ * Lets time pass on every board, then lets the AI players act on theirs. The AI's commands go
+ * through the same actions as a person's key presses, each pressed and released at once.
+ * @implements {MatchAction}
+ */
+export class TickMatch implements MatchAction {
+  // The time since the previous tick in milliseconds is passed as a parameter
+  constructor(public readonly elapsed: number) {}
+
+  apply(m: Match): Match {
+    const ticked = new EveryPlayer(new Tick(this.elapsed)).apply(m);
+    return ticked.bots.reduce<Match>((acc, bot, i) => {
+      if (bot === null) {
+        return acc;
+      }
+      const { bot: next, commands } = advanceBot(bot, acc.players[i], this.elapsed);
+      const actions = commands.flatMap(command => [actionForCommand(command, true), actionForCommand(command, false)]);
+      return actions.reduce<Match>(
+        (played, action) => action ? new PlayerAction(i, action).apply(played) : played,
+        { ...acc, bots: acc.bots.map((b, j) => j === i ? next : b) }
+      );
+    }, ticked);
+  }
+}
+
+/**
+ * Starts a new match: one board, or two for a versus mode, each counting down with its own seed.
+ * Players keep their high scores when the mode stays the same.
+ * @implements {MatchAction}
+ */
+export class StartMatch implements MatchAction {
+  // The match's seed, its settings and the AI playing each board are passed as parameters
+  constructor(public readonly seed: number, public readonly config: GameConfig, public readonly bots: readonly (Bot | null)[] = []) {}
+
+  apply(m: Match): Match {
+    const first = m.players[0];
+    return createMatch(Array.from({ length: GAME_MODES[this.config.mode].players }, (_, i) =>
+      new Restart(playerSeed(this.seed, i), this.config).apply(m.players[i] ?? { ...first, highScore: 0 })), this.bots);
+  }
+}
+
+/**
+ * Goes back to the menu on every board and sends the AI players away.
+ * @implements {MatchAction}
+ */
+export class QuitMatch implements MatchAction {
+  apply(m: Match): Match {
+    return { ...new EveryPlayer(new Quit()).apply(m), bots: m.bots.map(_ => null) };
+  }
+}
+
+/**
+ * Ends a demo, where the AI plays the first board while nobody is playing, by going back to the menu.
+ * Does nothing to a match people are playing, so it is safe to send with any input.
+ * @implements {MatchAction}
+ */
+export class EndDemo implements MatchAction {
+  apply(m: Match): Match {
+    return isBot(m, 0) ? new QuitMatch().apply(m) : m;
+  }
+}
+
+/**
+ * Applies a match action. Each game's own phase decides what the action may change,
+ * so a decided match stays decided until a new one starts.
+ * @param m - The current match.
+ * @param action - The action to apply.
+ * @returns The updated match.
+ */
+export function reduceMatch(m: Match, action: MatchAction): Match {
+  return action.apply(m);
+}
@@ -0,0 +1,176 @@
+/** Game modes: what ends a game, how levels progress and what the sidebar shows */
+
+import type { GarbageRule } from "./garbage";
+
+/**
+ * The name of a game mode.
+ */
+export type GameModeName = "marathon" | "sprint" | "ultra" | "zen" | "cheese" | "survival" | "versus" | "puzzle" | "practice";
+
+/**
+ * A statistic the sidebar can show.
+ */
+export type Stat = "score" | "level" | "lines" | "time" | "garbage" | "goal";
+
+/**
+ * The rules of a game mode.
+ *
+ * @param label - What the start menu calls the mode.
+ * @param lineGoal - Clearing this many lines wins the game, or `null` for no goal.
+ * @param timeLimit - The game ends after this many milliseconds, or `null` for no limit.
+ * @param topOut - Whether topping out ends the game; without it the board is cleared and play continues.
+ * @param levelUp - Whether clearing lines raises the level.
+ * @param stats - The statistics shown while playing, in order.
+ * @param rankBy - Whether the leaderboard ranks by highest score or by fastest time to the goal.
+ * @param garbage - How garbage rises in the mode, or `null` if it never does.
+ * @param players - How many boards play at once; with two, line clears send garbage to the opponent.
+ * @param puzzle - Whether the board and pieces come from the settings' puzzle, and the game ends once its goal
+ * is reached or its pieces run out.
+ * @param history - How many placements back can be undone and redone, or 0 to keep no history.
+ */
+export type GameMode = {
+  label: string,
+  lineGoal: number | null,
+  timeLimit: number | null,
+  topOut: boolean,
+  levelUp: boolean,
+  stats: readonly Stat[],
+  rankBy: "score" | "time",
+  garbage: GarbageRule | null,
+  players: 1 | 2,
+  puzzle: boolean,
+  history: number,
+};
+
+/**
+ * Every game mode.
+ */
+export const GAME_MODES: Readonly<Record<GameModeName, GameMode>> = {
+  marathon: {
+    label: "Marathon",
+    lineGoal: 150,
+    timeLimit: null,
+    topOut: true,
+    levelUp: true,
+    stats: ["score", "level", "lines"],
+    rankBy: "score",
+    garbage: null,
+    players: 1,
+    puzzle: false,
+    history: 0,
+  },
+  sprint: {
+    label: "Sprint 40L",
+    lineGoal: 40,
+    timeLimit: null,
+    topOut: true,
+    levelUp: false,
+    stats: ["time", "lines"],
+    rankBy: "time",
+    garbage: null,
+    players: 1,
+    puzzle: false,
+    history: 0,
+  },
+  ultra: {
+    label: "Ultra 2 min",
+    lineGoal: null,
+    timeLimit: 120_000,
+    topOut: true,
+    levelUp: false,
+    stats: ["score", "time", "lines"],
+    rankBy: "score",
+    garbage: null,
+    players: 1,
+    puzzle: false,
+    history: 0,
+  },
+  zen: {
+    label: "Zen",
+    lineGoal: null,
+    timeLimit: null,
+    topOut: false,
+    levelUp: false,
+    stats: ["score", "lines"],
+    rankBy: "score",
+    garbage: null,
+    players: 1,
+    puzzle: false,
+    history: 0,
+  },
+  cheese: {
+    label: "Cheese Race",
+    lineGoal: null,
+    timeLimit: null,
+    topOut: true,
+    levelUp: false,
+    stats: ["time", "garbage", "lines"],
+    rankBy: "time",
+    garbage: { rows: 9, total: 18, interval: null, speedUp: 1, minInterval: 0 },
+    players: 1,
+    puzzle: false,
+    history: 0,
+  },
+  survival: {
+    label: "Survival",
+    lineGoal: null,
+    timeLimit: null,
+    topOut: true,
+    levelUp: true,
+    stats: ["score", "time", "level", "lines"],
+    rankBy: "score",
+    garbage: { rows: 0, total: null, interval: 5000, speedUp: 0.95, minInterval: 1000 },
+    players: 1,
+    puzzle: false,
+    history: 0,
+  },
+  versus: {
+    label: "Versus (2 players)",
+    lineGoal: null,
+    timeLimit: null,
+    topOut: true,
+    levelUp: false,
+    stats: ["score", "lines", "time"],
+    rankBy: "score",
+    garbage: null,
+    players: 2,
+    puzzle: false,
+    history: 0,
+  },
+  puzzle: {
+    label: "Puzzle",
+    lineGoal: null,
+    timeLimit: null,
+    topOut: true,
+    levelUp: false,
+    stats: ["goal", "time", "lines"],
+    rankBy: "time",
+    garbage: null,
+    players: 1,
+    puzzle: true,
+    history: 100,
+  },
+  // Nothing ends a practice game, and any placement can be taken back
+  practice: {
+    label: "Practice",
+    lineGoal: null,
+    timeLimit: null,
+    topOut: false,
+    levelUp: false,
+    stats: ["score", "lines", "time"],
+    rankBy: "score",
+    garbage: null,
+    players: 1,
+    puzzle: false,
+    history: 100,
+  },
+};
+
+/**
+ * Checks whether a string names a game mode.
+ *
+ * @param name - The name to check.
+ * @returns `true` if it is a game mode.
+ */
+export const isGameModeName = (name: string): name is GameModeName =>
+  Object.keys(GAME_MODES).includes(name);
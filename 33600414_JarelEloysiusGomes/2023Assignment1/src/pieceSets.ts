@@ -0,0 +1,371 @@
+/** Piece sets: the pieces a game deals, read from a JSON format, and the built-in sets */
+
+import { PIECE_KINDS } from "./types";
+import type { PieceKind, Point, Rotation } from "./types";
+
+/**
+ * A wall kick offset as `[dx, dy]`, with y increasing upwards as in the
+ * guideline tables.
+ */
+export type Kick = readonly [number, number];
+
+/**
+ * The kicks to try for each rotation, keyed by `from` and `to` rotation state
+ * (e.g. "01" is 0 -> R). The first kick that fits is used.
+ */
+export type KickTable = Record<`${Rotation}${Rotation}`, readonly Kick[]>;
+
+/**
+ * The names of the built-in kick tables: SRS for J, L, S, T and Z, SRS for I, and no kicks at all.
+ */
+export type KickTableName = "srs" | "srsI" | "none";
+
+/**
+ * How a piece looks, rotates and turns up.
+ *
+ * @param kind - The piece's name, unique within its set.
+ * @param size - The width and height of the bounding box the piece rotates in.
+ * @param rotations - The cells of the piece in each rotation state, within the bounding box, spawn state first.
+ * @param color - The colour of the piece.
+ * @param spawnOffset - How far the piece appears from the centred spawn position, with y increasing downwards.
+ * @param kicks - The wall kicks to try when a rotation is blocked.
+ * @param weight - How many of the piece go into each bag, or how many times as likely it is to be picked.
+ * @param tSpin - Whether locking the piece after a rotation can score a T-spin.
+ */
+export type PieceDefinition = {
+  kind: PieceKind,
+  size: number,
+  rotations: readonly (readonly Point[])[],
+  color: string,
+  spawnOffset: Point,
+  kicks: Partial<KickTable>,
+  weight: number,
+  tSpin: boolean,
+};
+
+/**
+ * The pieces a game deals from, in a fixed order so that seeded draws are reproducible.
+ *
+ * @param name - What menus call the set.
+ * @param pieces - The definition of every piece.
+ */
+export type PieceSet = {
+  name: string,
+  pieces: readonly PieceDefinition[],
+};
+
+/**
+ * A piece in the JSON format. Cells are `[x, y]` pairs with y increasing downwards.
+ *
+ * @param name - The piece's name, unique within its set.
+ * @param cells - The cells in the spawn state only, turned clockwise for the others, or in all four states.
+ * @param color - The colour of the piece, as CSS.
+ * @param size - The bounding box the piece rotates in; by default, the smallest square holding every cell.
+ * @param spawn - How far the piece appears from the centred spawn position; `[0, 0]` by default.
+ * @param kicks - A built-in kick table's name, or a table of `[dx, dy]` kicks per rotation; SRS by default.
+ * @param weight - A whole number: how many go into each bag, or the odds of the piece being picked; 1 by default.
+ * @param tSpin - Whether the piece scores T-spins; `false` by default.
+ */
+export type PieceJson = {
+  name: string,
+  cells: readonly (readonly (readonly [number, number])[])[],
+  color: string,
+  size?: number,
+  spawn?: readonly [number, number],
+  kicks?: KickTableName | Readonly<Record<string, readonly (readonly [number, number])[]>>,
+  weight?: number,
+  tSpin?: boolean,
+};
+
+/**
+ * A piece set in the JSON format.
+ *
+ * @param name - What menus call the set.
+ * @param pieces - Every piece, in the order generators deal from.
+ */
+export type PieceSetJson = {
+  name: string,
+  pieces: readonly PieceJson[],
+};
+
+/**
+ * 180 degree kicks, shared by every piece with SRS kicks. SRS itself does not define these.
+ */
+const KICKS_180: Partial<KickTable> = {
+  "02": [[0, 0], [0, 1], [1, 1], [-1, 1], [1, 0], [-1, 0]],
+  "13": [[0, 0], [1, 0], [1, 2], [1, 1], [0, 2], [0, 1]],
+  "20": [[0, 0], [0, -1], [-1, -1], [1, -1], [-1, 0], [1, 0]],
+  "31": [[0, 0], [-1, 0], [-1, 2], [-1, 1], [0, 2], [0, 1]],
+};
+
+/**
+ * The built-in kick tables.
+ */
+const KICK_TABLES: Readonly<Record<KickTableName, Partial<KickTable>>> = {
+  // SRS wall kicks for the J, L, S, T and Z pieces
+  srs: {
+    "01": [[0, 0], [-1, 0], [-1, 1], [0, -2], [-1, -2]],
+    "10": [[0, 0], [1, 0], [1, -1], [0, 2], [1, 2]],
+    "12": [[0, 0], [1, 0], [1, -1], [0, 2], [1, 2]],
+    "21": [[0, 0], [-1, 0], [-1, 1], [0, -2], [-1, -2]],
+    "23": [[0, 0], [1, 0], [1, 1], [0, -2], [1, -2]],
+    "32": [[0, 0], [-1, 0], [-1, -1], [0, 2], [-1, 2]],
+    "30": [[0, 0], [-1, 0], [-1, -1], [0, 2], [-1, 2]],
+    "03": [[0, 0], [1, 0], [1, 1], [0, -2], [1, -2]],
+    ...KICKS_180,
+  },
+  // SRS wall kicks for the I piece, which has its own table
+  srsI: {
+    "01": [[0, 0], [-2, 0], [1, 0], [-2, -1], [1, 2]],
+    "10": [[0, 0], [2, 0], [-1, 0], [2, 1], [-1, -2]],
+    "12": [[0, 0], [-1, 0], [2, 0], [-1, 2], [2, -1]],
+    "21": [[0, 0], [1, 0], [-2, 0], [1, -2], [-2, 1]],
+    "23": [[0, 0], [2, 0], [-1, 0], [2, 1], [-1, -2]],
+    "32": [[0, 0], [-2, 0], [1, 0], [-2, -1], [1, 2]],
+    "30": [[0, 0], [1, 0], [-2, 0], [1, -2], [-2, 1]],
+    "03": [[0, 0], [-1, 0], [2, 0], [-1, 2], [2, -1]],
+    ...KICKS_180,
+  },
+  none: {},
+};
+
+/**
+ * Checks whether a value is a pair of whole numbers.
+ * @param value - The value.
+ * @returns `true` if it is `[x, y]` with whole numbers.
+ */
+const isPair = (value: unknown): value is [number, number] =>
+  Array.isArray(value) && value.length === 2 && value.every(Number.isInteger);
+
+/**
+ * Checks whether a value is a piece in the JSON format.
+ * @param value - The value.
+ * @returns `true` if it is a piece with cells in one or four rotation states, all inside its bounding box.
+ */
+const isPieceJson = (value: unknown): value is PieceJson => {
+  const piece = value as Partial<PieceJson> | null;
+  const isState = (state: unknown) =>
+    Array.isArray(state) && state.length > 0 && state.every(cell => isPair(cell) && cell[0] >= 0 && cell[1] >= 0);
+  const isKicks = (kicks: unknown) =>
+    typeof kicks === "string" ? Object.keys(KICK_TABLES).includes(kicks)
+      : typeof kicks === "object" && kicks !== null &&
+        Object.entries(kicks).every(([key, list]) => /^[0-3][0-3]$/.test(key) && Array.isArray(list) && list.every(isPair));
+  return typeof piece === "object" && piece !== null &&
+    typeof piece.name === "string" && piece.name !== "" && piece.name !== "garbage" &&
+    Array.isArray(piece.cells) && (piece.cells.length === 1 || piece.cells.length === 4) && piece.cells.every(isState) &&
+    typeof piece.color === "string" &&
+    (piece.size === undefined || (Number.isInteger(piece.size) && piece.cells.flat().every(cell => cell.every((n: number) => n < piece.size!)))) &&
+    (piece.spawn === undefined || isPair(piece.spawn)) &&
+    (piece.kicks === undefined || isKicks(piece.kicks)) &&
+    (piece.weight === undefined || (Number.isInteger(piece.weight) && piece.weight >= 0)) &&
+    (piece.tSpin === undefined || typeof piece.tSpin === "boolean");
+};
+
+/**
+ * Builds a piece's definition from the JSON format, turning its spawn state for the other states if only one is given.
+ * Each quarter turn rotates the cells clockwise around the true centre of the bounding box.
+ * @param piece - The piece in the JSON format.
+ * @returns The piece's definition.
+ */
+const buildPiece = (piece: PieceJson): PieceDefinition => {
+  const given = piece.cells.map(state => state.map(([x, y]) => ({ x, y })));
+  const size = piece.size ?? Math.max(...given.flat().flatMap(({ x, y }) => [x, y])) + 1;
+  const turn = (points: readonly Point[]) => points.map(({ x, y }) => ({ x: size - 1 - y, y: x }));
+  const rotations = given.length === 4 ? given
+    : Array.from({ length: 3 }).reduce<Point[][]>(states => [...states, turn(states[states.length - 1])], [given[0]]);
+  const [spawnX, spawnY] = piece.spawn ?? [0, 0];
+  return {
+    kind: piece.name,
+    size,
+    rotations,
+    color: piece.color,
+    spawnOffset: { x: spawnX, y: spawnY },
+    kicks: typeof piece.kicks === "object" ? piece.kicks as Partial<KickTable> : KICK_TABLES[piece.kicks ?? "srs"],
+    weight: piece.weight ?? 1,
+    tSpin: piece.tSpin ?? false,
+  };
+};
+
+/**
+ * Builds a piece set from the JSON format.
+ * @param json - The piece set in the JSON format.
+ * @returns The piece set.
+ */
+export const buildPieceSet = (json: PieceSetJson): PieceSet =>
+  ({ name: json.name, pieces: json.pieces.map(buildPiece) });
+
+/**
+ * Reads a piece set file, checking it has the expected shape: named pieces, each name used once,
+ * and at least one piece that can be dealt.
+ * @param json - The piece set file contents.
+ * @returns The piece set, or `null` if the file is not a piece set.
+ */
+export const parsePieceSet = (json: string): PieceSet | null => {
+  const parsed = (() => {
+    try {
+      return JSON.parse(json);
+    } catch {
+      return null;
+    }
+  })();
+  const pieces: unknown[] = Array.isArray(parsed?.pieces) ? parsed.pieces : [];
+  return typeof parsed?.name === "string" &&
+    pieces.length > 0 && pieces.every(isPieceJson) &&
+    new Set(pieces.map(piece => piece.name)).size === pieces.length &&
+    pieces.some(piece => (piece.weight ?? 1) > 0)
+    ? buildPieceSet(parsed)
+    : null;
+};
+
+/**
+ * Checks whether a value is a piece set as built from the JSON format, such as one saved with a replay.
+ * @param value - The value.
+ * @returns `true` if it is a named set of uniquely named pieces, each with four rotation states inside its
+ * bounding box, and at least one piece that can be dealt.
+ */
+export const isPieceSet = (value: unknown): value is PieceSet => {
+  const set = value as Partial<PieceSet> | null;
+  const isPoint = (point: unknown): point is Point => {
+    const { x, y } = (point ?? {}) as Partial<Point>;
+    return Number.isInteger(x) && Number.isInteger(y);
+  };
+  const isPiece = (piece: Partial<PieceDefinition>) =>
+    typeof piece?.kind === "string" && piece.kind !== "" && piece.kind !== "garbage" &&
+    Number.isInteger(piece.size) && piece.size! > 0 &&
+    Array.isArray(piece.rotations) && piece.rotations.length === 4 &&
+    piece.rotations.every(state => Array.isArray(state) && state.length > 0 &&
+      state.every(cell => isPoint(cell) && cell.x >= 0 && cell.y >= 0 && cell.x < piece.size! && cell.y < piece.size!)) &&
+    typeof piece.color === "string" &&
+    isPoint(piece.spawnOffset) &&
+    typeof piece.kicks === "object" && piece.kicks !== null &&
+    Object.entries(piece.kicks).every(([key, list]) => /^[0-3][0-3]$/.test(key) && Array.isArray(list) && list.every(isPair)) &&
+    Number.isInteger(piece.weight) && piece.weight! >= 0 &&
+    typeof piece.tSpin === "boolean";
+  return typeof set === "object" && set !== null && typeof set.name === "string" &&
+    Array.isArray(set.pieces) && set.pieces.length > 0 && set.pieces.every(isPiece) &&
+    new Set(set.pieces.map(piece => piece.kind)).size === set.pieces.length &&
+    set.pieces.some(piece => piece.weight > 0);
+};
+
+/**
+ * The names of the built-in piece sets.
+ */
+export type PieceSetName = "standard" | "pentomino" | "beginner";
+
+// The standard Tetriminos in SRS spawn orientation, keyed by kind to keep the standard dealing order
+const STANDARD_PIECES: Readonly<Record<string, Omit<PieceJson, "name">>> = {
+  I: { cells: [[[0, 1], [1, 1], [2, 1], [3, 1]]], color: "cyan", size: 4, kicks: "srsI" },
+  // The O piece rotates in place, so it never needs to kick
+  O: { cells: [[[0, 0], [1, 0], [0, 1], [1, 1]]], color: "yellow", size: 2, kicks: "none" },
+  T: { cells: [[[1, 0], [0, 1], [1, 1], [2, 1]]], color: "purple", size: 3, tSpin: true },
+  S: { cells: [[[1, 0], [2, 0], [0, 1], [1, 1]]], color: "blue", size: 3 },
+  Z: { cells: [[[0, 0], [1, 0], [1, 1], [2, 1]]], color: "green", size: 3 },
+  J: { cells: [[[0, 0], [0, 1], [1, 1], [2, 1]]], color: "red", size: 3 },
+  L: { cells: [[[2, 0], [0, 1], [1, 1], [2, 1]]], color: "orange", size: 3 },
+};
+
+/**
+ * Every built-in piece set, in the JSON format.
+ */
+export const BUILT_IN_PIECE_SETS: Readonly<Record<PieceSetName, PieceSetJson>> = {
+  standard: {
+    name: "Standard",
+    pieces: PIECE_KINDS.map(kind => ({ name: kind, ...STANDARD_PIECES[kind] })),
+  },
+  // The 18 one-sided pentominoes; mirrored pieces are marked with a prime
+  pentomino: {
+    name: "Pentominoes",
+    pieces: [
+      { name: "I", cells: [[[0, 2], [1, 2], [2, 2], [3, 2], [4, 2]]], color: "cyan", size: 5, kicks: "srsI" },
+      { name: "F", cells: [[[1, 0], [2, 0], [0, 1], [1, 1], [1, 2]]], color: "sienna", size: 3 },
+      { name: "F'", cells: [[[0, 0], [1, 0], [1, 1], [2, 1], [1, 2]]], color: "peru", size: 3 },
+      { name: "L", cells: [[[3, 0], [0, 1], [1, 1], [2, 1], [3, 1]]], color: "orange", size: 4 },
+      { name: "L'", cells: [[[0, 0], [0, 1], [1, 1], [2, 1], [3, 1]]], color: "red", size: 4 },
+      { name: "N", cells: [[[0, 0], [1, 0], [1, 1], [2, 1], [3, 1]]], color: "teal", size: 4 },
+      { name: "N'", cells: [[[2, 0], [3, 0], [0, 1], [1, 1], [2, 1]]], color: "olive", size: 4 },
+      { name: "P", cells: [[[0, 0], [1, 0], [0, 1], [1, 1], [0, 2]]], color: "pink", size: 3 },
+      { name: "P'", cells: [[[0, 0], [1, 0], [0, 1], [1, 1], [1, 2]]], color: "hotpink", size: 3 },
+      { name: "T", cells: [[[0, 0], [1, 0], [2, 0], [1, 1], [1, 2]]], color: "purple", size: 3 },
+      { name: "U", cells: [[[0, 0], [2, 0], [0, 1], [1, 1], [2, 1]]], color: "goldenrod", size: 3 },
+      { name: "V", cells: [[[0, 0], [0, 1], [0, 2], [1, 2], [2, 2]]], color: "navy", size: 3 },
+      { name: "W", cells: [[[0, 0], [0, 1], [1, 1], [1, 2], [2, 2]]], color: "lime", size: 3 },
+      { name: "X", cells: [[[1, 0], [0, 1], [1, 1], [2, 1], [1, 2]]], color: "crimson", size: 3, kicks: "none" },
+      { name: "Y", cells: [[[1, 0], [0, 1], [1, 1], [2, 1], [3, 1]]], color: "khaki", size: 4 },
+      { name: "Y'", cells: [[[2, 0], [0, 1], [1, 1], [2, 1], [3, 1]]], color: "tan", size: 4 },
+      { name: "Z", cells: [[[0, 0], [1, 0], [1, 1], [1, 2], [2, 2]]], color: "green", size: 3 },
+      { name: "Z'", cells: [[[1, 0], [2, 0], [1, 1], [0, 2], [1, 2]]], color: "blue", size: 3 },
+    ],
+  },
+  // Small pieces for learning the controls: a monomino, a domino and the two trominoes
+  beginner: {
+    name: "Beginner",
+    pieces: [
+      { name: "1", cells: [[[0, 0]]], color: "yellow", size: 1, kicks: "none" },
+      { name: "2", cells: [[[0, 0], [1, 0]]], color: "cyan", size: 2 },
+      { name: "3", cells: [[[0, 1], [1, 1], [2, 1]]], color: "blue", size: 3 },
+      { name: "V3", cells: [[[0, 0], [0, 1], [1, 1]]], color: "orange", size: 2 },
+    ],
+  },
+};
+
+/**
+ * Every built-in piece set, built once.
+ */
+const PIECE_SETS: Readonly<Record<PieceSetName, PieceSet>> = {
+  standard: buildPieceSet(BUILT_IN_PIECE_SETS.standard),
+  pentomino: buildPieceSet(BUILT_IN_PIECE_SETS.pentomino),
+  beginner: buildPieceSet(BUILT_IN_PIECE_SETS.beginner),
+};
+
+/**
+ * The seven Tetriminos, used unless a game asks for another set.
+ */
+export const standardPieces: PieceSet = PIECE_SETS.standard;
+
+/**
+ * Checks whether a string names a built-in piece set.
+ * @param name - The name to check.
+ * @returns `true` if it is a built-in piece set.
+ */
+export const isPieceSetName = (name: string): name is PieceSetName =>
+  Object.keys(PIECE_SETS).includes(name);
+
+/**
+ * Gets the piece set a game uses.
+ * @param choice - A built-in set's name, or a set read from a file.
+ * @returns The piece set; the standard set for a name that is not built in.
+ */
+export const pieceSetFor = (choice: PieceSetName | PieceSet): PieceSet =>
+  typeof choice === "string" ? PIECE_SETS[choice] ?? standardPieces : choice;
+
+/**
+ * Finds a piece's definition in a set. Games only deal pieces from their own set, so a name that is not
+ * in it means the settings or a replay were not checked.
+ * @param pieces - The piece set.
+ * @param kind - The piece's name.
+ * @returns The definition.
+ * @throws {Error} If the name is not in the set.
+ */
+export const pieceDefinition = (pieces: PieceSet, kind: PieceKind): PieceDefinition => {
+  const definition = pieces.pieces.find(piece => piece.kind === kind);
+  if (!definition) {
+    throw new Error(`There is no piece "${kind}" in the piece set "${pieces.name}"`);
+  }
+  return definition;
+};
+
+/**
+ * Gets the width a board needs for every piece of a set to fit where it appears.
+ * @param pieces - The piece set.
+ * @returns The size of the set's largest bounding box.
+ */
+export const widestPiece = (pieces: PieceSet): number =>
+  Math.max(...pieces.pieces.map(piece => piece.size));
+
+/**
+ * Lists the pieces generators deal from, each as many times as its weight.
+ * @param pieces - The piece set.
+ * @returns The piece kinds, in the set's order.
+ */
+export const piecePool = (pieces: PieceSet): PieceKind[] =>
+  pieces.pieces.flatMap(piece => Array.from({ length: piece.weight }, () => piece.kind));
@@ -0,0 +1,81 @@
+/** Pieces on the board and the Super Rotation System (SRS), for the pieces of any piece set */
+
+import { pieceDefinition, PieceSet, standardPieces } from "./pieceSets";
+import type { PieceKind, Point, Rotation, Tetrimino } from "./types";
+import type { SpecialName } from "./specials";
+
+/**
+ * Gets the cells a piece covers in a rotation state, relative to its bounding box.
+ *
+ * @param kind - The piece kind.
+ * @param rotation - The rotation state.
+ * @param pieces - The piece set the piece comes from.
+ * @returns The cells of the piece within its bounding box.
+ */
+export const pieceCells = (kind: PieceKind, rotation: Rotation, pieces: PieceSet = standardPieces): Point[] =>
+  [...pieceDefinition(pieces, kind).rotations[rotation]];
+
+/**
+ * Gets the colour of a piece kind.
+ *
+ * @param kind - The piece kind.
+ * @param pieces - The piece set the piece comes from.
+ * @returns The colour used to draw the piece.
+ */
+export const pieceColor = (kind: PieceKind, pieces: PieceSet = standardPieces): string =>
+  pieceDefinition(pieces, kind).color;
+
+/**
+ * Gets the cells a Tetrimino covers on the board.
+ *
+ * @param t - The Tetrimino.
+ * @param pieces - The piece set the Tetrimino comes from.
+ * @returns The board positions of its cells.
+ */
+export const tetriminoCells = (t: Tetrimino, pieces: PieceSet = standardPieces): Point[] =>
+  pieceCells(t.kind, t.rotation, pieces).map(({ x, y }) => ({ x: t.x + x, y: t.y + y }));
+
+/**
+ * Creates a Tetrimino in its spawn orientation, centred at the top of the board unless told where to appear.
+ * The piece's own spawn offset moves it from there.
+ *
+ * @param kind - The piece kind.
+ * @param special - The special block it is made of, if any.
+ * @param boardWidth - The width of the board.
+ * @param column - The column of the left of the bounding box, or `null` to centre it.
+ * @param row - The row the piece's top cells appear in.
+ * @param pieces - The piece set the piece comes from.
+ * @returns The spawned Tetrimino.
+ */
+export const spawnTetrimino = (kind: PieceKind, special: SpecialName | null, boardWidth: number, column: number | null = null, row: number = 0, pieces: PieceSet = standardPieces): Tetrimino => {
+  const { size, spawnOffset } = pieceDefinition(pieces, kind);
+  // Shift up past any empty rows at the top of the bounding box
+  const top = Math.min(...pieceCells(kind, 0, pieces).map(({ y }) => y));
+  return { kind, rotation: 0, x: (column ?? Math.floor((boardWidth - size) / 2)) + spawnOffset.x, y: row - top + spawnOffset.y, special };
+};
+
+/**
+ * Rotates a Tetrimino using the Super Rotation System. If the rotated piece
+ * does not fit where it is, each wall kick for the rotation is tried in turn.
+ *
+ * @param t - The Tetrimino to rotate.
+ * @param turns - Clockwise quarter turns: 1 (clockwise), 2 (180) or 3 (counter-clockwise).
+ * @param fits - Checks whether a Tetrimino fits on the board.
+ * @param pieces - The piece set the Tetrimino comes from, which holds its kicks.
+ * @returns The rotated Tetrimino and the index of the kick used, or `null` if no kick fits.
+ */
+export const rotateTetrimino = (
+  t: Tetrimino,
+  turns: 1 | 2 | 3,
+  fits: (t: Tetrimino) => boolean,
+  pieces: PieceSet = standardPieces
+): { tetrimino: Tetrimino, kick: number } | null => {
+  const rotation = ((t.rotation + turns) % 4) as Rotation;
+  const kicks = pieceDefinition(pieces, t.kind).kicks[`${t.rotation}${rotation}`] ?? [[0, 0]];
+
+  // Kick tables point y upwards, the board points y downwards
+  const candidates = kicks.map(([dx, dy]) => ({ ...t, rotation, x: t.x + dx, y: t.y - dy }));
+  const kick = candidates.findIndex(fits);
+
+  return kick === -1 ? null : { tetrimino: candidates[kick], kick };
+};
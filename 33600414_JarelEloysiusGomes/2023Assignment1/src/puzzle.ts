@@ -0,0 +1,99 @@
+/** Puzzles: a board, a fixed queue of pieces and a goal to reach before the pieces run out */
+
+import { BoardSetup, fieldsOf, parseBoard, serialiseBoard } from "./boardText";
+import { decodeFumen } from "./fumen";
+import type { ClearEvent } from "./scoring";
+import type { Grid, PieceKind } from "./types";
+
+/**
+ * The name of a puzzle goal.
+ */
+export type PuzzleGoalName = "clearAll" | "perfectClear" | "tSpinTriple";
+
+/**
+ * A puzzle goal.
+ *
+ * @param label - What menus call the goal.
+ * @param solved - Whether a lock reaches the goal, from the board after it and what it scored.
+ */
+export type PuzzleGoal = {
+  label: string,
+  solved: (grid: Grid, clear: ClearEvent | null) => boolean,
+};
+
+/**
+ * Every puzzle goal.
+ */
+export const PUZZLE_GOALS: Readonly<Record<PuzzleGoalName, PuzzleGoal>> = {
+  // Every cell is cleared, whether the starting board's or the pieces'. Cells cannot tell the two apart,
+  // as boards may be written with piece letters as well as garbage
+  clearAll: {
+    label: "Clear the board",
+    solved: grid => grid.every(row => row.every(cell => cell === null)),
+  },
+  perfectClear: {
+    label: "Perfect clear",
+    solved: (_, clear) => clear?.perfectClear ?? false,
+  },
+  tSpinTriple: {
+    label: "T-spin triple",
+    solved: (_, clear) => clear?.tSpin === "full" && clear.lines === 3,
+  },
+};
+
+/**
+ * Checks whether a string names a puzzle goal.
+ * @param name - The name to check.
+ * @returns `true` if it is a puzzle goal.
+ */
+export const isPuzzleGoalName = (name: string): name is PuzzleGoalName =>
+  Object.keys(PUZZLE_GOALS).includes(name);
+
+/**
+ * A puzzle: a board setup with at least one piece to play, and the goal to reach with them.
+ *
+ * @param goal - The goal.
+ */
+export type Puzzle = BoardSetup & {
+  goal: PuzzleGoalName,
+};
+
+/**
+ * The puzzle played when none is loaded: slide the T under the overhang and spin it in for a T-spin triple.
+ */
+export const defaultPuzzle: Puzzle = {
+  rows: [
+    "...XXXXXXX",
+    "....XXXXXX",
+    "XXX.XXXXXX",
+    "XX..XXXXXX",
+    "XXX.XXXXXX",
+  ],
+  queue: ["T"],
+  hold: null,
+  goal: "tSpinTriple",
+};
+
+/**
+ * Writes a puzzle as board text, with a line for its goal.
+ * @param puzzle - The puzzle.
+ * @returns The text.
+ */
+export const serialisePuzzle = (puzzle: Puzzle): string =>
+  `${serialiseBoard(puzzle)}\ngoal: ${puzzle.goal}`;
+
+/**
+ * Reads a puzzle from board text with a `goal:` line, or from a fumen with a quiz comment.
+ * @param text - The board text or fumen.
+ * @param kinds - The piece kinds that may be used.
+ * @param goal - The goal for text that does not give one.
+ * @returns The puzzle, or `null` if the text is not a board or has no pieces to play.
+ */
+export const parsePuzzle = (text: string, kinds: readonly PieceKind[], goal: PuzzleGoalName = "clearAll"): Puzzle | null => {
+  const setup = text.includes("v115@") ? decodeFumen(text) : parseBoard(text, kinds);
+  const named = fieldsOf(text.split(/\r?\n/).map(line => line.trim())).get("goal") ?? goal;
+  return setup !== null && setup.queue.length > 0 && isPuzzleGoalName(named) &&
+    [...setup.queue, ...(setup.hold ? [setup.hold] : [])].every(piece => kinds.includes(piece))
+    ? { ...setup, goal: named }
+    : null;
+};
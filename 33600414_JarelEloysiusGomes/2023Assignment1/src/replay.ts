@@ -0,0 +1,257 @@
+/** Replays: a seed, the game settings and the commands played, frame by frame */
+
+import { Command, COMMANDS } from "./controls";
+import { isGeneratorName } from "./generators";
+import { isGravityCurveName } from "./gravity";
+import { isGameModeName } from "./modes";
+import { isPieceSet, isPieceSetName } from "./pieceSets";
+import { isPuzzleGoalName } from "./puzzle";
+import { SPECIAL_BLOCKS } from "./specials";
+import { defaultConfig, GameConfig } from "./types";
+
+/**
+ * One recorded command: the frame it happened on (the number of ticks before it),
+ * the command, and 1 for a press or 0 for a release.
+ */
+export type ReplayEntry = [frame: number, command: Command, pressed: 0 | 1];
+
+/**
+ * A recorded game, in the form written to replay files.
+ *
+ * @param version - The replay format version.
+ * @param seed - The seed the game started from.
+ * @param config - The settings the game was played with.
+ * @param frames - How many frames the game lasted.
+ * @param entries - The commands played, in order.
+ * @param result - The score and lines at the end, for checking the replay reproduces the game.
+ */
+export type Replay = {
+  version: 1,
+  seed: number,
+  config: GameConfig,
+  frames: number,
+  entries: ReplayEntry[],
+  result: { score: number, lines: number } | null,
+};
+
+/**
+ * The speeds a replay can be played at.
+ */
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4] as const;
+
+/**
+ * The commands recorded in replays. Restarting starts a new recording, and pausing does not change the game.
+ */
+export const REPLAYED_COMMANDS: readonly Command[] = COMMANDS.filter(command => command !== "restart" && command !== "pause");
+
+/**
+ * Starts recording a game.
+ *
+ * @param seed - The seed the game starts from.
+ * @param config - The settings the game is played with.
+ * @returns An empty recording.
+ */
+export const startRecording = (seed: number, config: GameConfig): Replay =>
+  ({ version: 1, seed, config, frames: 0, entries: [], result: null });
+
+/**
+ * Records a command.
+ *
+ * @param replay - The recording so far.
+ * @param frame - The frame the command happened on.
+ * @param command - The command.
+ * @param pressed - Whether it was pressed or released.
+ * @returns The recording with the command added.
+ */
+export const recordCommand = (replay: Replay, frame: number, command: Command, pressed: boolean): Replay =>
+  ({ ...replay, frames: frame, entries: [...replay.entries, [frame, command, pressed ? 1 : 0]] });
+
+/**
+ * Finishes a recording with how the game ended.
+ *
+ * @param replay - The recording.
+ * @param frames - How many frames the game lasted.
+ * @param result - The final score and lines.
+ * @returns The finished recording.
+ */
+export const finishRecording = (replay: Replay, frames: number, result: { score: number, lines: number }): Replay =>
+  ({ ...replay, frames, result });
+
+/**
+ * Groups a replay's entries by the frame they happened on.
+ *
+ * @param replay - The replay.
+ * @returns The entries for each frame that has any, in order.
+ */
+export const entriesByFrame = (replay: Replay): ReadonlyMap<number, ReplayEntry[]> =>
+  replay.entries.reduce(
+    (byFrame, entry) => byFrame.set(entry[0], [...(byFrame.get(entry[0]) ?? []), entry]),
+    new Map<number, ReplayEntry[]>()
+  );
+
+/**
+ * Writes a replay as compact JSON.
+ *
+ * @param replay - The replay.
+ * @returns The replay file contents.
+ */
+export const serialiseReplay = (replay: Replay): string => JSON.stringify(replay);
+
+/**
+ * Checks whether a value is a whole number that is not negative, such as a count or a size.
+ * @param value - The value.
+ * @returns `true` if it is 0, 1, 2 and so on.
+ */
+const isCount = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0;
+
+/**
+ * Checks whether a value is a finite number that is not negative, such as a time or a rate.
+ * @param value - The value.
+ * @returns `true` if it is a number from 0 up.
+ */
+const isAmount = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value) && value >= 0;
+
+/**
+ * Checks whether a value is a non-empty list of amounts, as in gravity and attack tables.
+ * @param value - The value.
+ * @returns `true` if it is a list of numbers from 0 up, with at least one entry.
+ */
+const isAmounts = (value: unknown): value is number[] => Array.isArray(value) && value.length > 0 && value.every(isAmount);
+
+/**
+ * Reads the settings saved with a replay. Settings added since the replay was recorded keep their defaults,
+ * including those inside the handling, attack table, special chances and puzzle.
+ * @param value - The saved settings.
+ * @returns The settings, or `null` if any of them is not a value the game can play with.
+ */
+const readConfig = (value: unknown): GameConfig | null => {
+  if (typeof value !== "object" || value === null) {
+    return null;
+  }
+  const saved = value as Partial<Record<keyof GameConfig, unknown>>;
+  const nested = <T extends object>(defaults: T, key: keyof GameConfig): T =>
+    typeof saved[key] === "object" && saved[key] !== null ? { ...defaults, ...saved[key] as Partial<T> } : defaults;
+  const config = {
+    ...defaultConfig,
+    ...saved,
+    handling: nested(defaultConfig.handling, "handling"),
+    attackTable: nested(defaultConfig.attackTable, "attackTable"),
+    specialChances: nested(defaultConfig.specialChances, "specialChances"),
+    puzzle: nested(defaultConfig.puzzle, "puzzle"),
+  } as Record<keyof GameConfig, unknown> & Pick<GameConfig, "handling" | "attackTable" | "specialChances" | "puzzle">;
+
+  const { handling, attackTable, specialChances, puzzle } = config;
+  const isName = (name: unknown, check: (name: string) => boolean) => typeof name === "string" && check(name);
+  return isName(config.mode, isGameModeName) &&
+    isCount(config.boardWidth) && isCount(config.boardHeight) && isCount(config.bufferHeight) &&
+    (config.spawnColumn === null || isCount(config.spawnColumn)) && isCount(config.spawnRow) &&
+    typeof config.hold === "boolean" && typeof config.ghost === "boolean" &&
+    (isName(config.pieces, isPieceSetName) || isPieceSet(config.pieces)) &&
+    isName(config.generator, isGeneratorName) &&
+    isCount(config.previewCount) && isAmount(config.lockDelay) && isCount(config.maxLockResets) &&
+    (isName(config.gravity, isGravityCurveName) || isAmounts(config.gravity)) &&
+    isCount(config.startLevel) && config.startLevel >= 1 &&
+    isCount(config.linesPerLevel) && config.linesPerLevel >= 1 &&
+    isAmount(handling.das) && isAmount(handling.arr) && isAmount(handling.sdf) &&
+    isAmounts(attackTable.lines) && isAmounts(attackTable.tSpin) && isAmounts(attackTable.tSpinMini) && isAmounts(attackTable.combo) &&
+    isAmount(attackTable.backToBack) && isAmount(attackTable.perfectClear) &&
+    Object.keys(SPECIAL_BLOCKS).every(name => {
+      const chance: unknown = specialChances[name as keyof typeof specialChances];
+      return isAmount(chance) && chance <= 1;
+    }) &&
+    Array.isArray(puzzle.rows) && puzzle.rows.every(row => typeof row === "string") &&
+    Array.isArray(puzzle.queue) && puzzle.queue.every(piece => typeof piece === "string") &&
+    (puzzle.hold === null || typeof puzzle.hold === "string") &&
+    isName(puzzle.goal, isPuzzleGoalName)
+    ? config as GameConfig
+    : null;
+};
+
+/**
+ * Reads a replay file, checking it has the expected shape.
+ *
+ * @param json - The replay file contents.
+ * @returns The replay, or `null` if the file is not a replay.
+ */
+export const parseReplay = (json: string): Replay | null => {
+  const parsed = (() => {
+    try {
+      return JSON.parse(json);
+    } catch {
+      return null;
+    }
+  })();
+  const isEntry = (entry: unknown): entry is ReplayEntry =>
+    Array.isArray(entry) && entry.length === 3 &&
+    isCount(entry[0]) && COMMANDS.includes(entry[1]) && (entry[2] === 0 || entry[2] === 1);
+
+  const isResult = (result: unknown) => {
+    const { score, lines } = (result ?? {}) as { score?: unknown, lines?: unknown };
+    return result === null || (isAmount(score) && isCount(lines));
+  };
+  const config = readConfig(parsed?.config);
+  return parsed?.version === 1 &&
+    Number.isFinite(parsed.seed) &&
+    config !== null &&
+    isCount(parsed.frames) &&
+    Array.isArray(parsed.entries) && parsed.entries.every(isEntry) &&
+    isResult(parsed.result ?? null)
+    ? { ...parsed, config, result: parsed.result ?? null }
+    : null;
+};
+
+/**
+ * A replay being watched.
+ *
+ * @param replay - The replay.
+ * @param playing - Whether it is playing or paused.
+ * @param speed - How many replay frames pass per real frame.
+ * @param position - The frame being shown; fractional while playing slower than real time.
+ */
+export type ReplayPlayer = {
+  replay: Replay,
+  playing: boolean,
+  speed: number,
+  position: number,
+};
+
+/**
+ * Starts watching a replay from the beginning, paused.
+ *
+ * @param replay - The replay.
+ * @returns The player.
+ */
+export const openReplay = (replay: Replay): ReplayPlayer => ({ replay, playing: false, speed: 1, position: 0 });
+
+/**
+ * Moves a player to a frame, within the replay.
+ *
+ * @param player - The player.
+ * @param frame - The frame to show.
+ * @returns The player at that frame.
+ */
+export const seekReplay = (player: ReplayPlayer, frame: number): ReplayPlayer =>
+  ({ ...player, position: Math.max(0, Math.min(player.replay.frames, frame)) });
+
+/**
+ * Advances a playing replay by some real frames, stopping at the end.
+ *
+ * @param player - The player.
+ * @param frames - The real frames that passed.
+ * @returns The player afterwards.
+ */
+export const advanceReplay = (player: ReplayPlayer, frames: number): ReplayPlayer => {
+  if (!player.playing) {
+    return player;
+  }
+  const advanced = seekReplay(player, player.position + frames * player.speed);
+  return advanced.position >= player.replay.frames ? { ...advanced, playing: false } : advanced;
+};
+
+/**
+ * The whole frame a player is showing.
+ *
+ * @param player - The player.
+ * @returns The frame.
+ */
+export const replayFrame = (player: ReplayPlayer): number => Math.floor(player.position);
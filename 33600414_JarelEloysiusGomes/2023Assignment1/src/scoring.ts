@@ -0,0 +1,211 @@
+/** Guideline scoring: line clears, T-spins, back-to-back, combos and drops */
+
+import type { Grid, Tetrimino } from "./types";
+
+/**
+ * Whether a lock was a T-spin, and which kind.
+ */
+export type TSpin = "none" | "mini" | "full";
+
+/**
+ * What happened when a piece locked, for the UI to announce.
+ *
+ * @param lines - How many lines were cleared.
+ * @param tSpin - Whether the lock was a T-spin.
+ * @param backToBack - Whether the back-to-back bonus applied.
+ * @param combo - How many clears in a row came before this one (0 for the first).
+ * @param perfectClear - Whether the board is empty after the clear.
+ * @param points - The points awarded for the clear.
+ * @param label - A description such as "B2B T-SPIN DOUBLE".
+ */
+export type ClearEvent = {
+  lines: number,
+  tSpin: TSpin,
+  backToBack: boolean,
+  combo: number,
+  perfectClear: boolean,
+  points: number,
+  label: string,
+};
+
+/**
+ * The scoring state carried between locks.
+ *
+ * @param combo - How many clears in a row so far, minus one; -1 when there is no chain.
+ * @param backToBack - Whether the last clear was a difficult one (a tetris or a T-spin clear).
+ */
+export type ScoringState = {
+  combo: number,
+  backToBack: boolean,
+};
+
+/**
+ * The scoring state at the start of a game.
+ */
+export const initialScoring: ScoringState = { combo: -1, backToBack: false };
+
+/**
+ * Points per lock, before the level multiplier, indexed by lines cleared.
+ */
+const Points = {
+  LINES: [0, 100, 300, 500, 800],
+  T_SPIN: [400, 800, 1200, 1600],
+  T_SPIN_MINI: [100, 200, 400],
+  PERFECT_CLEAR: [0, 800, 1200, 1800, 2000],
+  PERFECT_CLEAR_B2B_TETRIS: 3200,
+  COMBO: 50,
+  BACK_TO_BACK: 1.5,
+  SOFT_DROP: 1,
+  HARD_DROP: 2,
+} as const;
+
+/**
+ * Names of line clears, indexed by lines cleared.
+ */
+const CLEAR_NAMES = ["", "SINGLE", "DOUBLE", "TRIPLE", "TETRIS"];
+
+/**
+ * The index of the SRS quarter-turn kick that always upgrades a mini T-spin to a full one. The 180 kicks
+ * are not SRS, and none of them upgrades.
+ */
+const T_SPIN_TRIPLE_KICK = 4;
+
+/**
+ * A rotation, as remembered for T-spin detection.
+ *
+ * @param kick - The index of the kick it used.
+ * @param turns - Clockwise quarter turns: 1 (clockwise), 2 (180) or 3 (counter-clockwise).
+ */
+export type RotationKick = { kick: number, turns: 1 | 2 | 3 };
+
+/**
+ * Checks whether a cell is a wall, the floor or filled. Cells above the board are open.
+ *
+ * @param grid - The game grid.
+ * @param x - The column.
+ * @param y - The row.
+ * @returns `true` if a piece cannot be in the cell.
+ */
+const isBlocked = (grid: Grid, x: number, y: number): boolean =>
+  x < 0 || x >= grid[0].length || y >= grid.length || (y >= 0 && grid[y][x] !== null);
+
+/**
+ * Detects a T-spin with the 3-corner rule. The piece must be a T whose last
+ * successful move was a rotation, with at least three of the four corners
+ * around its centre blocked. It is a full T-spin if both corners the T points
+ * towards are blocked, or if a quarter turn used the last SRS kick; otherwise it is a mini.
+ *
+ * @param t - The piece as it locks.
+ * @param grid - The grid before the piece is placed.
+ * @param rotation - The last rotation and the kick it used, or `null` if the last move was not a rotation.
+ * @returns The kind of T-spin.
+ */
+export const detectTSpin = (t: Tetrimino, grid: Grid, rotation: RotationKick | null): TSpin => {
+  if (t.kind !== "T" || rotation === null) {
+    return "none";
+  }
+
+  // The corners of the T's 3x3 box, clockwise from top-left
+  const corners = [[0, 0], [2, 0], [2, 2], [0, 2]]
+    .map(([dx, dy]) => isBlocked(grid, t.x + dx, t.y + dy));
+
+  // The two corners the T points towards, for each rotation state
+  const front = [corners[t.rotation], corners[(t.rotation + 1) % 4]];
+
+  return corners.filter(Boolean).length < 3 ? "none"
+    : front.every(Boolean) || (rotation.turns !== 2 && rotation.kick === T_SPIN_TRIPLE_KICK) ? "full"
+    : "mini";
+};
+
+/**
+ * Describes a clear, e.g. "B2B T-SPIN DOUBLE" or "3 COMBO".
+ *
+ * @returns The label shown to the player.
+ */
+const clearLabel = (lines: number, tSpin: TSpin, backToBack: boolean, combo: number, perfectClear: boolean): string =>
+  [
+    backToBack ? "B2B" : "",
+    tSpin === "full" ? "T-SPIN" : tSpin === "mini" ? "T-SPIN MINI" : "",
+    CLEAR_NAMES[lines],
+    combo > 0 ? `${combo} COMBO` : "",
+    perfectClear ? "PERFECT CLEAR" : "",
+  ].filter(part => part !== "").join(" ");
+
+/**
+ * Scores a locked piece.
+ *
+ * @param scoring - The scoring state before the lock.
+ * @param lines - How many lines the lock cleared.
+ * @param tSpin - Whether the lock was a T-spin.
+ * @param perfectClear - Whether the board is empty after the clear.
+ * @param level - The level the lock happened on, which multiplies the points.
+ * @returns The new scoring state, and the clear event if the lock cleared lines or was a T-spin.
+ */
+export const scoreLock = (
+  scoring: ScoringState,
+  lines: number,
+  tSpin: TSpin,
+  perfectClear: boolean,
+  level: number
+): { scoring: ScoringState, event: ClearEvent | null } => {
+  // A lock that clears nothing ends the combo but keeps back-to-back going
+  if (lines === 0) {
+    const event = tSpin === "none" ? null : {
+      lines,
+      tSpin,
+      backToBack: false,
+      combo: 0,
+      perfectClear: false,
+      points: (tSpin === "full" ? Points.T_SPIN[0] : Points.T_SPIN_MINI[0]) * level,
+      label: clearLabel(lines, tSpin, false, 0, false),
+    };
+    return { scoring: { ...scoring, combo: -1 }, event };
+  }
+
+  // Tetrises and T-spin clears are difficult, and chain into back-to-back bonuses
+  const difficult = lines >= 4 || tSpin !== "none";
+  const backToBack = difficult && scoring.backToBack;
+  const combo = scoring.combo + 1;
+
+  const base = tSpin === "full" ? Points.T_SPIN[Math.min(lines, 3)]
+    : tSpin === "mini" ? Points.T_SPIN_MINI[Math.min(lines, 2)]
+    : Points.LINES[Math.min(lines, 4)];
+  const perfectClearBonus = !perfectClear ? 0
+    : backToBack && lines >= 4 ? Points.PERFECT_CLEAR_B2B_TETRIS
+    : Points.PERFECT_CLEAR[Math.min(lines, 4)];
+
+  const points = level * (
+    base * (backToBack ? Points.BACK_TO_BACK : 1) +
+    Points.COMBO * combo +
+    perfectClearBonus
+  );
+
+  return {
+    scoring: { combo, backToBack: difficult },
+    event: {
+      lines,
+      tSpin,
+      backToBack,
+      combo,
+      perfectClear,
+      points,
+      label: clearLabel(lines, tSpin, backToBack, combo, perfectClear),
+    },
+  };
+};
+
+/**
+ * Points for soft dropping a number of rows.
+ *
+ * @param rows - The rows dropped.
+ * @returns The points awarded.
+ */
+export const softDropPoints = (rows: number): number => rows * Points.SOFT_DROP;
+
+/**
+ * Points for hard dropping a number of rows.
+ *
+ * @param rows - The rows dropped.
+ * @returns The points awarded.
+ */
+export const hardDropPoints = (rows: number): number => rows * Points.HARD_DROP;
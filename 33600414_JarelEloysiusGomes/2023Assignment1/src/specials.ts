@@ -0,0 +1,168 @@
+/** Special blocks: pieces dealt with a modifier that sets off an effect when a line holding them is cleared */
+
+import type { Grid, Point } from "./types";
+
+/**
+ * The names of the special blocks.
+ */
+export type SpecialName = "gold" | "bomb" | "lightning";
+
+/**
+ * How a special block looks and what it does.
+ *
+ * @param label - What messages call the block.
+ * @param color - The colour its cells are drawn in.
+ * @param appeared - The message shown when a piece of it is dealt.
+ * @param triggered - The message shown when a cleared line sets it off.
+ * @param multiplier - Whether each cleared line holding it adds one to the clear's score multiplier.
+ * @param blast - The cells a block at the point given clears, besides its line, on a board of the size given.
+ */
+export type SpecialBlock = {
+  label: string,
+  color: string,
+  appeared: string,
+  triggered: string,
+  multiplier: boolean,
+  blast: (at: Point, width: number, height: number) => Point[],
+};
+
+/**
+ * Every special block, in the order spawn chances are drawn in.
+ */
+export const SPECIAL_BLOCKS: Readonly<Record<SpecialName, SpecialBlock>> = {
+  gold: {
+    label: "Gold",
+    color: "gold",
+    appeared: "A WILD GOLD TETRIMINO APPEARED!",
+    triggered: "GOLD",
+    multiplier: true,
+    blast: () => [],
+  },
+  // The 3x3 square around the bomb
+  bomb: {
+    label: "Bomb",
+    color: "black",
+    appeared: "A BOMB IS FALLING!",
+    triggered: "BOOM",
+    multiplier: false,
+    blast: ({ x, y }, width, height) => [-1, 0, 1].flatMap(dy => [-1, 0, 1].map(dx => ({ x: x + dx, y: y + dy })))
+      .filter(cell => cell.x >= 0 && cell.x < width && cell.y >= 0 && cell.y < height),
+  },
+  // The whole column the lightning strikes
+  lightning: {
+    label: "Lightning",
+    color: "white",
+    appeared: "LIGHTNING IN THE AIR!",
+    triggered: "ZAP",
+    multiplier: false,
+    blast: ({ x }, _, height) => Array.from({ length: height }, (_, y) => ({ x, y })),
+  },
+};
+
+/**
+ * The chance of each special block being dealt with a piece, from 0 to 1. Their sum is the chance of a special piece.
+ */
+export type SpecialChances = Readonly<Record<SpecialName, number>>;
+
+/**
+ * Gold pieces turn up one time in twenty, bombs and lightning one time in fifty.
+ */
+export const defaultSpecialChances: SpecialChances = { gold: 0.05, bomb: 0.02, lightning: 0.02 };
+
+/**
+ * No special blocks at all.
+ */
+export const noSpecialChances: SpecialChances = { gold: 0, bomb: 0, lightning: 0 };
+
+/**
+ * Picks the special block a piece is dealt with.
+ * @param value - A random draw in [0, 1).
+ * @param chances - The chance of each special block.
+ * @returns The special block, or `null` for an ordinary piece.
+ */
+export const drawSpecial = (value: number, chances: SpecialChances): SpecialName | null => {
+  const names = Object.keys(SPECIAL_BLOCKS) as SpecialName[];
+  const picked = names.reduce<{ special: SpecialName | null, below: number }>((acc, name) =>
+    acc.special === null && value < acc.below + chances[name]
+      ? { special: name, below: acc.below }
+      : { special: acc.special, below: acc.below + chances[name] },
+    { special: null, below: 0 });
+  return picked.special;
+};
+
+/**
+ * A special block in a cleared line.
+ *
+ * @param special - Which special block it is.
+ * @param x - Its column.
+ * @param y - Its row, before the lines are cleared.
+ */
+export type SpecialTrigger = Point & { special: SpecialName };
+
+/**
+ * Finds the special blocks in the lines about to be cleared.
+ * @param grid - The board with the full lines still on it.
+ * @param rows - The full lines' rows.
+ * @returns The special blocks, top to bottom and left to right.
+ */
+export const findTriggers = (grid: Grid, rows: readonly number[]): SpecialTrigger[] =>
+  rows.flatMap(y => grid[y].flatMap((cell, x) => cell?.special ? [{ x, y, special: cell.special }] : []));
+
+/**
+ * Empties the cells the triggered special blocks blast.
+ * @param grid - The board with the full lines still on it.
+ * @param triggers - The special blocks set off.
+ * @param rows - The full lines' rows, which are cleared anyway.
+ * @returns The board afterwards, and how many filled cells the blasts emptied outside the full lines.
+ */
+export const blastCells = (grid: Grid, triggers: readonly SpecialTrigger[], rows: readonly number[]): { grid: Grid, blasted: number } => {
+  const blasted = new Set(triggers.flatMap(trigger =>
+    SPECIAL_BLOCKS[trigger.special].blast(trigger, grid[0].length, grid.length).map(({ x, y }) => `${x},${y}`)));
+  const emptied = grid.flatMap((row, y) =>
+    rows.includes(y) ? [] : row.filter((cell, x) => cell !== null && blasted.has(`${x},${y}`))).length;
+  return {
+    grid: grid.map((row, y) => row.map((cell, x) => blasted.has(`${x},${y}`) ? null : cell)),
+    blasted: emptied,
+  };
+};
+
+/**
+ * Gets the score multiplier of a clear: one, plus one for each cleared line holding a special block that multiplies.
+ * @param triggers - The special blocks set off.
+ * @returns The multiplier.
+ */
+export const scoreMultiplier = (triggers: readonly SpecialTrigger[]): number =>
+  1 + new Set(triggers.filter(trigger => SPECIAL_BLOCKS[trigger.special].multiplier).map(trigger => trigger.y)).size;
+
+/**
+ * What special blocks did on a lock, for the UI to announce.
+ *
+ * @param type - Whether the lock dealt a special piece, or a clear set special blocks off.
+ * @param specials - The special blocks involved, each once.
+ * @param multiplier - The clear's score multiplier.
+ * @param blasted - How many cells blasts emptied outside the cleared lines.
+ */
+export type SpecialEvent = {
+  type: "appeared" | "triggered",
+  specials: readonly SpecialName[],
+  multiplier: number,
+  blasted: number,
+};
+
+/**
+ * Describes a special event, such as "BOOM + GOLD x2!".
+ * @param event - The special event.
+ * @returns The message to show.
+ */
+export const specialMessage = (event: SpecialEvent): string =>
+  event.type === "appeared"
+    ? event.specials.map(special => SPECIAL_BLOCKS[special].appeared).join(" ")
+    : `${event.specials.map(special => SPECIAL_BLOCKS[special].triggered).join(" + ")}${event.multiplier > 1 ? ` x${event.multiplier}` : ""}!`;
+
+/**
+ * Gets the event announcing a piece as it is dealt.
+ * @param special - The special block the piece is made of, if any.
+ * @returns The event, or `null` for an ordinary piece.
+ */
+export const specialAppeared = (special: SpecialName | null): SpecialEvent | null =>
+  special ? { type: "appeared", specials: [special], multiplier: 1, blasted: 0 } : null;
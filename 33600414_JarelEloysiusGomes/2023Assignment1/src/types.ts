@@ -0,0 +1,144 @@
+/** Common types and type aliases */
+
+import type { GeneratorName } from "./generators";
+import type { GravityCurve } from "./gravity";
+import { defaultHandling, Handling } from "./handling";
+import type { GameModeName } from "./modes";
+import { AttackTable, defaultAttackTable } from "./attack";
+import { defaultSpecialChances, SpecialChances, SpecialName } from "./specials";
+import type { PieceSet, PieceSetName } from "./pieceSets";
+import { defaultPuzzle, Puzzle } from "./puzzle";
+
+/**
+ * The name of a piece within its piece set. The standard set names the seven Tetriminos
+ * after the letter they resemble: "I", "O", "T", "S", "Z", "J" and "L".
+ */
+export type PieceKind = string;
+
+/**
+ * A rotation state, counted in clockwise quarter turns from the spawn orientation:
+ * 0 (spawn), 1 (R), 2 (180) and 3 (L).
+ */
+export type Rotation = 0 | 1 | 2 | 3;
+
+/**
+ * A cell position, with y increasing downwards.
+ */
+export type Point = { x: number, y: number };
+
+/**
+ * A falling piece.
+ *
+ * @param kind - Which shape the piece has.
+ * @param rotation - The rotation state of the piece.
+ * @param x - The column of the top-left corner of the piece's bounding box.
+ * @param y - The row of the top-left corner of the piece's bounding box.
+ * @param special - The special block the piece is made of, if any.
+ */
+export type Tetrimino = {
+  kind: PieceKind,
+  rotation: Rotation,
+  x: number,
+  y: number,
+  special: SpecialName | null,
+};
+
+/**
+ * A filled cell on the board, remembering which piece it came from.
+ * Garbage cells did not come from a piece.
+ *
+ * @param kind - The kind of piece that filled the cell, or "garbage".
+ * @param special - The special block the cell's piece was made of, if any.
+ */
+export type FilledCell = {
+  kind: PieceKind | "garbage",
+  special: SpecialName | null,
+};
+
+/**
+ * A cell on the board: empty (`null`) or filled.
+ */
+export type Cell = FilledCell | null;
+
+/**
+ * The board, as rows of cells from top to bottom.
+ */
+export type Grid = Cell[][];
+
+/**
+ * The standard piece kinds, in a fixed order so that seeded draws are reproducible.
+ */
+export const PIECE_KINDS: readonly PieceKind[] = ["I", "O", "T", "S", "Z", "J", "L"];
+
+/**
+ * Settings chosen once per game.
+ *
+ * @param mode - The game mode, which decides how the game ends.
+ * @param boardWidth - How many columns the board has.
+ * @param boardHeight - How many rows of the board are shown.
+ * @param bufferHeight - How many hidden rows sit above the shown ones, for pieces to spawn in.
+ * @param spawnColumn - The column of the left of a new piece's bounding box, or `null` to centre it.
+ * @param spawnRow - The row, counting the hidden rows from the top, that a new piece's top cells appear in.
+ * @param hold - Whether the hold can be used.
+ * @param pieces - The pieces dealt: a built-in piece set's name, or a set read from a file.
+ * @param generator - The randomizer used to pick upcoming pieces.
+ * @param previewCount - How many upcoming pieces are shown, from 1 to 6.
+ * @param lockDelay - How long, in milliseconds, a grounded piece waits before it locks.
+ * @param maxLockResets - How many moves or rotations may restart the lock delay.
+ * @param ghost - Whether to show where the current piece will land.
+ * @param gravity - How fast pieces fall at each level.
+ * @param startLevel - The level a game starts on.
+ * @param linesPerLevel - How many cleared lines advance one level.
+ * @param handling - The player's DAS, ARR and soft drop factor.
+ * @param attackTable - How many garbage rows clears send to the opponent in versus.
+ * @param specialChances - The chance of each special block being dealt with a piece.
+ * @param puzzle - The board, pieces and goal of the puzzle mode.
+ */
+export type GameConfig = {
+  mode: GameModeName,
+  boardWidth: number,
+  boardHeight: number,
+  bufferHeight: number,
+  spawnColumn: number | null,
+  spawnRow: number,
+  hold: boolean,
+  pieces: PieceSetName | PieceSet,
+  generator: GeneratorName,
+  previewCount: number,
+  lockDelay: number,
+  maxLockResets: number,
+  ghost: boolean,
+  gravity: GravityCurve,
+  startLevel: number,
+  linesPerLevel: number,
+  handling: Handling,
+  attackTable: AttackTable,
+  specialChances: SpecialChances,
+  puzzle: Puzzle,
+};
+
+/**
+ * The settings used when a game does not ask for anything else.
+ */
+export const defaultConfig: GameConfig = {
+  mode: "marathon",
+  boardWidth: 10,
+  boardHeight: 20,
+  bufferHeight: 0,
+  spawnColumn: null,
+  spawnRow: 0,
+  hold: true,
+  pieces: "standard",
+  generator: "sevenBag",
+  previewCount: 3,
+  lockDelay: 500,
+  maxLockResets: 15,
+  ghost: true,
+  gravity: "guideline",
+  startLevel: 1,
+  linesPerLevel: 10,
+  handling: defaultHandling,
+  attackTable: defaultAttackTable,
+  specialChances: defaultSpecialChances,
+  puzzle: defaultPuzzle,
+};
@@ -0,0 +1,37 @@
+/** Utility functions */
+
+/**
+ * A seeded linear congruential generator, hashing each seed into the next
+ * @param seed - The seed value for random number generation
+ * @returns A hash of the seed
+ */
+export abstract class RNG {
+  // LCG using GCC's constants
+  private static readonly m = 0x80000000; // 2**31;
+  private static readonly a = 1103515245; // Choose a
+  private static readonly c = 12345; // Choose c to be coprime to m
+
+  // Function to generate a hash from a seed
+  // Math.imul keeps the product exact, so the sequence is the same on every platform
+  public static hash = (seed: number) => (Math.imul(RNG.a, seed) + RNG.c) & (RNG.m - 1);
+
+  //  Function to scale a hash to a value between -1 and 1
+  public static scale = (hash: number) => (2 * hash) / (RNG.m - 1) - 1;
+
+  // Function to scale a hash to a value in [0, 1)
+  public static unit = (hash: number) => hash / RNG.m;
+
+  // Function to turn a scaled value back into a seed, the inverse of scale
+  public static unscale = (scaled: number) => Math.round(((scaled + 1) * (RNG.m - 1)) / 2);
+}
+
+/**
+ * Draws a random number from a seed without any side effects.
+ *
+ * @param seed - The current seed.
+ * @returns The drawn value in [0, 1) and the seed to use for the next draw.
+ */
+export function nextRandom(seed: number): { value: number, seed: number } {
+  const hash = RNG.hash(seed);
+  return { value: RNG.unit(hash), seed: hash };
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { advanceBot, BOT_LEVELS, bestPlacement, createBot, evaluateBoard, findPlacements, Weights } from "../src/ai";
+import { createGame, State } from "../src/engine";
+import { tetriminoCells } from "../src/pieces";
+import { Grid } from "../src/types";
+
+const block = { kind: "garbage" as const, special: null };
+
+// A board with rows filled from the bottom, leaving the columns given empty
+const boardWithRows = (rows: number, gaps: readonly number[]): Grid =>
+  Array.from({ length: 20 }, (_, y) =>
+    Array.from({ length: 10 }, (_, x) => y >= 20 - rows && !gaps.includes(x) ? block : null));
+
+// Weights that count one feature at a time
+const only = (feature: keyof Weights): Weights =>
+  ({ height: 0, holes: 0, bumpiness: 0, lines: 0, wells: 0, [feature]: 1 });
+
+// A game with an I piece lying flat at the top of the board given
+const withI = (grid: Grid): State => ({
+  ...createGame({}, 1),
+  grid,
+  currentTetrimino: { kind: "I", rotation: 0, x: 3, y: 0, special: null },
+  heldTetrimino: null,
+  holdUsed: true,
+});
+
+describe("evaluateBoard", () => {
+  it("measures the height, holes, bumpiness and wells of a board", () => {
+    // Two full rows with a gap in column 4, then a block covering it
+    const grid = boardWithRows(2, [4]).map((row, y) => y === 17 ? row.map((cell, x) => x === 4 ? block : cell) : row);
+    expect(evaluateBoard(grid, 0, only("height"))).toBe(2 * 9 + 3);
+    expect(evaluateBoard(grid, 0, only("holes"))).toBe(2);
+    expect(evaluateBoard(grid, 0, only("bumpiness"))).toBe(2);
+    expect(evaluateBoard(boardWithRows(2, [4]), 0, only("wells"))).toBe(2);
+    expect(evaluateBoard(grid, 3, only("lines"))).toBe(3);
+  });
+});
+
+describe("findPlacements", () => {
+  it("finds every column for each way an I piece can lie", () => {
+    const placements = findPlacements(withI(boardWithRows(0, [])), BOT_LEVELS.hard.weights);
+    // Seven flat positions and ten upright ones
+    expect(placements).toHaveLength(17);
+    expect(placements.every(p => p.commands[p.commands.length - 1] === "hardDrop")).toBe(true);
+  });
+});
+
+describe("bestPlacement", () => {
+  it("drops an I piece into a well to clear four lines", () => {
+    const best = bestPlacement(withI(boardWithRows(4, [0])), BOT_LEVELS.hard.weights);
+    expect(tetriminoCells(best!.tetrimino).every(({ x }) => x === 0)).toBe(true);
+  });
+});
+
+describe("advanceBot", () => {
+  it("thinks first, then issues its plan a command at a time and stops after the hard drop", () => {
+    const s = withI(boardWithRows(4, [0]));
+    const level = BOT_LEVELS.easy;
+    const thinking = advanceBot(createBot("easy"), s, level.thinkTime / 2);
+    expect(thinking.commands).toEqual([]);
+
+    const first = advanceBot(thinking.bot, s, level.thinkTime / 2);
+    expect(first.commands).toHaveLength(1);
+
+    const rest = advanceBot(first.bot, s, 10 * level.moveDelay);
+    expect(rest.commands[rest.commands.length - 1]).toBe("hardDrop");
+    expect(rest.bot.plan).toEqual([]);
+  });
+  it("does nothing outside of play", () => {
+    const paused: State = { ...withI(boardWithRows(0, [])), phase: "paused" };
+    expect(advanceBot(createBot("hard"), paused, 10000).commands).toEqual([]);
+  });
+});
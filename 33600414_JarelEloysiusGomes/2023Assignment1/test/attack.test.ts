@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { attackFor, cancelGarbage, defaultAttackTable } from "../src/attack";
+import { ClearEvent } from "../src/scoring";
+
+const clear = (event: Partial<ClearEvent>): ClearEvent =>
+  ({ lines: 1, tSpin: "none", backToBack: false, combo: 0, perfectClear: false, points: 0, label: "", ...event });
+
+describe("attackFor", () => {
+  it("sends 4 for a tetris or a T-spin double and nothing for a single", () => {
+    expect(attackFor(clear({ lines: 4 }), defaultAttackTable)).toBe(4);
+    expect(attackFor(clear({ lines: 2, tSpin: "full" }), defaultAttackTable)).toBe(4);
+    expect(attackFor(clear({ lines: 1 }), defaultAttackTable)).toBe(0);
+    expect(attackFor(null, defaultAttackTable)).toBe(0);
+  });
+  it("adds the back-to-back and combo bonuses, using the last combo entry past the end", () => {
+    expect(attackFor(clear({ lines: 4, backToBack: true }), defaultAttackTable)).toBe(5);
+    expect(attackFor(clear({ lines: 2, combo: 3 }), defaultAttackTable)).toBe(2);
+    expect(attackFor(clear({ lines: 1, combo: 50 }), defaultAttackTable)).toBe(5);
+  });
+});
+
+describe("cancelGarbage", () => {
+  it("cancels the oldest incoming garbage first and sends what is left", () => {
+    expect(cancelGarbage([2, 3], 4)).toEqual({ pending: [1], attack: 0 });
+    expect(cancelGarbage([2], 5)).toEqual({ pending: [], attack: 3 });
+  });
+});
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { bindInput, commandFor, defaultKeyMap, findConflict, inputChanges, loadKeyMap, saveKeyMap, unbindInput } from "../src/controls";
+
+/**
+ * An in-memory stand-in for localStorage.
+ */
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+describe("key map", () => {
+  it("binds several inputs to one command", () => {
+    expect(commandFor(defaultKeyMap, "KeyA")).toBe("moveLeft");
+    expect(commandFor(defaultKeyMap, "ArrowLeft")).toBe("moveLeft");
+    expect(commandFor(defaultKeyMap, "KeyM")).toBeNull();
+  });
+  it("refuses a binding that another command already has", () => {
+    expect(findConflict(defaultKeyMap, "hold", "KeyA")).toBe("moveLeft");
+    expect(bindInput(defaultKeyMap, "hold", "KeyA")).toBeNull();
+  });
+  it("rebinds an input once it is freed", () => {
+    const freed = unbindInput(defaultKeyMap, "moveLeft", "KeyA");
+    const rebound = bindInput(freed, "hold", "KeyA");
+    expect(rebound && commandFor(rebound, "KeyA")).toBe("hold");
+  });
+  it("persists through storage, falling back to defaults for bad data", () => {
+    const storage = memoryStorage();
+    const keyMap = bindInput(defaultKeyMap, "hold", "KeyV")!;
+    saveKeyMap(storage, keyMap);
+    expect(loadKeyMap(storage)).toEqual(keyMap);
+
+    storage.setItem("tetris.keyMap", "not json");
+    expect(loadKeyMap(storage)).toEqual(defaultKeyMap);
+  });
+});
+
+describe("inputChanges", () => {
+  it("reports buttons that went down and came up between polls", () => {
+    expect(inputChanges(["Gamepad0", "Gamepad14"], ["Gamepad14", "Gamepad12"])).toEqual([
+      { input: "Gamepad0", pressed: false },
+      { input: "Gamepad12", pressed: true },
+    ]);
+  });
+});
@@ -0,0 +1,351 @@
+import { describe, expect, it } from "vitest";
+import { acceptsCommand, CommandChange, createGame, createInitialState, generateANewTetrimino, Hold, Tick, instantDROP, moveTetriminoLeft, landingPosition, clearLines, PressSide, ReleaseSide, actionForCommand, Pause, QueueGarbage, Quit, Restart, Rotate, TogglePauseResume, reduceState, replayState, step } from "../src/engine";
+import { defaultConfig } from "../src/types";
+import { createGenerator } from "../src/generators";
+import { finishRecording, recordCommand, startRecording } from "../src/replay";
+import { Command } from "../src/controls";
+import { tetriminoCells } from "../src/pieces";
+
+describe("generateANewTetrimino", () => {
+  it("produces the same piece sequence for the same seed", () => {
+    const sequence = (seed: number) =>
+      Array.from({ length: 20 }).reduce<{ seed: number, generator: ReturnType<typeof createGenerator>, pieces: unknown[] }>(
+        (acc) => {
+          const { tetrimino, seed, generator } = generateANewTetrimino(acc.seed, acc.generator);
+          return { seed, generator, pieces: [...acc.pieces, tetrimino] };
+        },
+        { seed, generator: createGenerator("uniform"), pieces: [] }
+      ).pieces;
+    expect(sequence(7)).toEqual(sequence(7));
+    expect(sequence(7)).not.toEqual(sequence(8));
+  });
+});
+
+describe("createInitialState", () => {
+  it("is reproducible from its seed", () => {
+    expect(createInitialState(2023)).toEqual(createInitialState(2023));
+  });
+});
+
+describe("queue", () => {
+  it("holds the configured number of pieces, clamped to 1-6", () => {
+    expect(createInitialState(1, { ...defaultConfig, previewCount: 5 }).queue).toHaveLength(5);
+    expect(createInitialState(1, { ...defaultConfig, previewCount: 0 }).queue).toHaveLength(1);
+    expect(createInitialState(1, { ...defaultConfig, previewCount: 9 }).queue).toHaveLength(6);
+  });
+});
+
+describe("Hold", () => {
+  it("takes the next piece from the queue when the slot is empty", () => {
+    const s = createInitialState(3);
+    const held = new Hold().apply(s);
+    expect(held.heldTetrimino).toEqual(s.currentTetrimino);
+    expect(held.currentTetrimino).toEqual(s.queue[0]);
+    expect(held.queue).toHaveLength(s.queue.length);
+  });
+  it("allows only one swap per piece", () => {
+    const held = new Hold().apply(createInitialState(3));
+    expect(new Hold().apply(held)).toBe(held);
+  });
+  it("holds the piece in its spawn orientation", () => {
+    const s = createInitialState(3);
+    const moved = { ...s, currentTetrimino: { ...s.currentTetrimino, y: 5, rotation: 2 as const } };
+    expect(new Hold().apply(moved).heldTetrimino).toEqual(s.currentTetrimino);
+  });
+});
+
+describe("lock delay", () => {
+  // An O piece resting on the floor
+  const grounded = () => ({
+    ...createInitialState(5),
+    currentTetrimino: { kind: "O" as const, rotation: 0 as const, x: 4, y: 18, special: null },
+  });
+
+  it("does not lock a grounded piece until the delay runs out", () => {
+    const waited = new Tick(200).apply(grounded());
+    expect(waited.lockTimer).toBe(200);
+    expect(waited.grid[19][4]).toBeNull();
+
+    const locked = new Tick(300).apply(waited);
+    expect(locked.grid[19][4]).toEqual({ kind: "O", special: null });
+    expect(locked.lockTimer).toBe(0);
+  });
+  it("restarts the delay when the piece moves, up to the reset limit", () => {
+    const waited = new Tick(400).apply(grounded());
+    expect(new moveTetriminoLeft().apply(waited).lockTimer).toBe(0);
+
+    const exhausted = { ...waited, lockResets: waited.config.maxLockResets };
+    expect(new moveTetriminoLeft().apply(exhausted).lockTimer).toBe(400);
+  });
+});
+
+describe("gravity", () => {
+  it("carries sub-row gravity over between ticks", () => {
+    const s = { ...createInitialState(5), config: { ...defaultConfig, gravity: [0.5] } };
+    const once = new Tick(1000 / 60).apply(s);
+    expect(once.currentTetrimino.y).toBe(s.currentTetrimino.y);
+    expect(new Tick(1000 / 60).apply(once).currentTetrimino.y).toBe(s.currentTetrimino.y + 1);
+  });
+  it("drops the piece onto the stack in one tick at 20G", () => {
+    const s = { ...createInitialState(5), config: { ...defaultConfig, gravity: [20] } };
+    const dropped = new Tick(1000 / 60).apply(s);
+    expect(dropped.currentTetrimino).toEqual(landingPosition(s.currentTetrimino, s.grid));
+  });
+});
+
+describe("auto-shift", () => {
+  it("shifts once on press and repeats on ticks once DAS charges, until released", () => {
+    const s = { ...createInitialState(5), config: { ...defaultConfig, gravity: [0], handling: { das: 100, arr: 50, sdf: 20 } } };
+    const x = s.currentTetrimino.x;
+    const pressed = new PressSide("left").apply(s);
+    expect(pressed.currentTetrimino.x).toBe(x - 1);
+    const charged = new Tick(100).apply(pressed);
+    expect(charged.currentTetrimino.x).toBe(x - 2);
+    const released = new ReleaseSide("left").apply(charged);
+    expect(new Tick(100).apply(released).currentTetrimino.x).toBe(x - 2);
+  });
+});
+
+describe("landingPosition", () => {
+  it("projects a piece down onto the stack", () => {
+    const grid = Array.from({ length: 20 }, (_, y) => Array(10).fill(y >= 15 ? { kind: "garbage", special: null } : null));
+    const t = { kind: "O" as const, rotation: 0 as const, x: 4, y: 0, special: null };
+    expect(landingPosition(t, grid)).toEqual({ ...t, y: 13 });
+  });
+});
+
+describe("clearLines", () => {
+  it("keeps the colours of the rows that stay and spots special blocks", () => {
+    const t = { kind: "T" as const, special: null };
+    const gold = { kind: "I" as const, special: "gold" as const };
+    const grid = [
+      [null, t],
+      [gold, t],
+    ];
+    const result = clearLines(grid);
+    expect(result.linesCleared).toBe(1);
+    expect(result.triggers).toEqual([{ x: 0, y: 1, special: "gold" }]);
+    expect(result.grid).toEqual([[null, null], [null, t]]);
+  });
+  it("blasts the square around a bomb and the column of a lightning block", () => {
+    const t = { kind: "T" as const, special: null };
+    const withSpecial = (special: "bomb" | "lightning") => [
+      [t, t, t, t, null],
+      [t, t, t, t, null],
+      [t, t, { ...t, special }, t, t],
+      [null, t, t, t, t],
+    ];
+
+    const bomb = clearLines(withSpecial("bomb"));
+    expect(bomb.blasted).toBe(6);
+    expect(bomb.grid).toEqual([
+      [null, null, null, null, null],
+      [t, t, t, t, null],
+      [t, null, null, null, null],
+      [null, null, null, null, t],
+    ]);
+
+    const lightning = clearLines(withSpecial("lightning"));
+    expect(lightning.blasted).toBe(3);
+    expect(lightning.grid.map(row => row[2])).toEqual([null, null, null, null]);
+  });
+});
+
+describe("replayState", () => {
+  it("reproduces a game from its recorded commands", () => {
+    // Play a game live: commands land between ticks, and are recorded with the frame they happened on
+    const played: [number, Command, boolean][] = [
+      [5, "moveLeft", true], [20, "moveLeft", false], [21, "hardDrop", true],
+      [40, "rotateClockwise", true], [41, "softDrop", true], [90, "softDrop", false], [95, "hold", true],
+    ];
+    const live = Array.from({ length: 120 }, (_, frame) => frame).reduce(
+      ({ s, replay }, frame) => {
+        const commanded = played.filter(([at]) => at === frame).reduce(
+          (acc, [, command, pressed]) => ({
+            s: reduceState(acc.s, actionForCommand(command, pressed)!),
+            replay: recordCommand(acc.replay, acc.s.frame, command, pressed),
+          }),
+          { s, replay }
+        );
+        return { ...commanded, s: reduceState(commanded.s, new Tick(1000 / 60)) };
+      },
+      { s: createInitialState(11), replay: startRecording(11, defaultConfig) }
+    );
+    const replay = finishRecording(live.replay, live.s.frame, { score: live.s.userScore, lines: live.s.lines });
+
+    expect(replayState(replay, replay.frames)).toEqual(live.s);
+    // Seeking forwards from an earlier frame gives the same result
+    const halfway = replayState(replay, 60);
+    expect(replayState(replay, replay.frames, { frame: 60, state: halfway })).toEqual(live.s);
+  });
+
+  it("records the command that ends the game", () => {
+    // Hard drop every few frames until the stack tops out, recording what the game acts on as it was before
+    const drop: CommandChange = { command: "hardDrop", pressed: true };
+    const live = Array.from({ length: 150 }, (_, frame) => frame).reduce(
+      ({ s, replay }, frame) => {
+        const commanded = frame % 5 === 0 && acceptsCommand(s, drop)
+          ? { s: step(s, drop, 0), replay: recordCommand(replay, s.frame, drop.command, drop.pressed) }
+          : { s, replay };
+        return { ...commanded, s: step(commanded.s, null, 1000 / 60) };
+      },
+      { s: createInitialState(5), replay: startRecording(5, defaultConfig) }
+    );
+    expect(live.s.phase).toBe("gameOver");
+    const replay = finishRecording(live.replay, live.s.frame, { score: live.s.userScore, lines: live.s.lines });
+
+    const replayed = replayState(replay, replay.frames);
+    expect(replayed.phase).toBe("gameOver");
+    expect(replayed.grid).toEqual(live.s.grid);
+    expect(replayed.userScore).toBe(live.s.userScore);
+  });
+});
+
+describe("createGame and step", () => {
+  it("starts a game from a partial config", () => {
+    const game = createGame({ previewCount: 5 }, 3);
+    expect(game.queue).toHaveLength(5);
+    expect(game.config.lockDelay).toBe(defaultConfig.lockDelay);
+  });
+  it("applies a command, then lets time pass", () => {
+    const game = createGame({ gravity: [1] }, 3);
+    const moved = step(game, { command: "moveLeft", pressed: true }, 1000 / 60);
+    expect(moved.currentTetrimino.x).toBe(game.currentTetrimino.x - 1);
+    expect(moved.currentTetrimino.y).toBe(game.currentTetrimino.y + 1);
+    expect(moved.frame).toBe(1);
+  });
+  it("restarts reproducibly and stops changing once the game is over", () => {
+    const game = createGame({}, 3);
+    const restart = { command: "restart" as const, pressed: true };
+    expect(step(game, restart, 0)).toEqual(step(game, restart, 0));
+
+    const over = { ...game, phase: "gameOver" as const };
+    expect(step(over, { command: "hardDrop", pressed: true }, 1000)).toBe(over);
+  });
+});
+
+describe("board settings", () => {
+  it("builds the board from the settings, hidden rows included", () => {
+    const game = createGame({ boardWidth: 4, boardHeight: 12, bufferHeight: 2 }, 3);
+    expect(game.grid).toHaveLength(14);
+    expect(game.grid.every(row => row.length === 4)).toBe(true);
+    // Walls and floor follow the board
+    const floored = landingPosition(game.currentTetrimino, game.grid);
+    expect(Math.max(...tetriminoCells(floored).map(({ y }) => y))).toBe(13);
+    expect(new moveTetriminoLeft().apply(new moveTetriminoLeft().apply(game)).currentTetrimino.x).toBeGreaterThanOrEqual(0);
+  });
+  it("spawns pieces where the settings say", () => {
+    const game = createGame({ spawnColumn: 0, spawnRow: 1 }, 3);
+    const cells = tetriminoCells(game.currentTetrimino);
+    expect(Math.min(...cells.map(({ x }) => x))).toBe(game.currentTetrimino.x);
+    expect(game.currentTetrimino.x).toBe(0);
+    expect(Math.min(...cells.map(({ y }) => y))).toBe(1);
+  });
+  it("tops out when a piece locks wholly in the hidden rows", () => {
+    const game = createGame({ bufferHeight: 2 }, 3);
+    const stacked = {
+      ...game,
+      grid: game.grid.map((row, y) => y >= 2 ? row.map((_, x) => x === 0 ? null : { kind: "garbage" as const, special: null }) : row),
+      currentTetrimino: { kind: "O" as const, rotation: 0 as const, x: 7, y: 0, special: null },
+    };
+    expect(new instantDROP().apply(stacked).phase).toBe("gameOver");
+  });
+  it("ignores the hold when it is turned off", () => {
+    const game = createGame({ hold: false }, 3);
+    expect(new Hold().apply(game)).toBe(game);
+  });
+});
+
+describe("game modes", () => {
+  // An O piece resting in the gap of a bottom row that is otherwise full
+  const oneLineLeft = (mode: "marathon" | "sprint" | "zen") => ({
+    ...createGame({ mode }, 5),
+    grid: Array.from({ length: 20 }, (_, y) =>
+      Array.from({ length: 10 }, (_, x) => y === 19 && x !== 4 && x !== 5 ? { kind: "garbage" as const, special: null } : null)),
+    currentTetrimino: { kind: "O" as const, rotation: 0 as const, x: 4, y: 18, special: null },
+    lines: 39,
+  });
+
+  it("wins a Sprint at 40 lines, but not a Marathon", () => {
+    const sprint = new instantDROP().apply(oneLineLeft("sprint"));
+    expect(sprint.lines).toBe(40);
+    expect(sprint.phase).toBe("gameOver");
+    expect(sprint.won).toBe(true);
+
+    const marathon = new instantDROP().apply(oneLineLeft("marathon"));
+    expect(marathon.phase).toBe("playing");
+  });
+  it("ends an Ultra when the two minutes are up", () => {
+    const game = createGame({ mode: "ultra", gravity: [0] }, 5);
+    const almost = new Tick(119_000).apply(game);
+    expect(almost.phase).toBe("playing");
+    const over = new Tick(2_000).apply(almost);
+    expect(over).toMatchObject({ phase: "gameOver", won: true, elapsed: 120_000 });
+  });
+  it("clears the board instead of ending a Zen game on top-out", () => {
+    const full = Array.from({ length: 20 }, () => Array.from({ length: 10 }, (_, x) => x === 0 ? null : { kind: "garbage" as const, special: null }));
+    const game = { ...createGame({ mode: "zen" }, 5), grid: full };
+    const marathon = { ...createGame({ mode: "marathon" }, 5), grid: full };
+    expect(new instantDROP().apply(marathon).phase).toBe("gameOver");
+
+    const cleared = new instantDROP().apply(game);
+    expect(cleared.phase).toBe("playing");
+    expect(cleared.grid.flat().every(cell => cell === null)).toBe(true);
+  });
+});
+
+describe("lifecycle", () => {
+  it("counts down after a restart, then starts play without moving the piece", () => {
+    const restarted = new Restart(3).apply(createGame({ gravity: [1] }, 3));
+    expect(restarted.phase).toBe("countdown");
+    const counting = reduceState(restarted, new Tick(2000));
+    expect(counting.currentTetrimino).toEqual(restarted.currentTetrimino);
+    expect(reduceState(counting, new instantDROP())).toBe(counting);
+
+    const started = reduceState(counting, new Tick(1000));
+    expect(started).toMatchObject({ phase: "playing", countdown: 0, frame: 0 });
+    expect(started.currentTetrimino).toEqual(restarted.currentTetrimino);
+  });
+  it("freezes the game while paused, whichever action pauses it", () => {
+    const game = createGame({ gravity: [1] }, 3);
+    const paused = reduceState(game, new TogglePauseResume());
+    expect(paused.phase).toBe("paused");
+    expect(reduceState(paused, new Tick(1000))).toBe(paused);
+    expect(reduceState(paused, new Rotate(1))).toBe(paused);
+    // Pausing twice does not resume
+    expect(new Pause().apply(paused)).toBe(paused);
+    expect(reduceState(paused, new TogglePauseResume()).phase).toBe("playing");
+  });
+  it("notes keys let go of while paused", () => {
+    const held = new PressSide("left").apply(createGame({}, 3));
+    const paused = new Pause().apply(held);
+    expect(reduceState(paused, new ReleaseSide("left")).input.left).toBe(false);
+  });
+  it("returns to the menu, where only starting a game does anything", () => {
+    const menu = reduceState(createGame({}, 3), new Quit());
+    expect(menu.phase).toBe("menu");
+    expect(reduceState(menu, new Tick(1000))).toBe(menu);
+    expect(reduceState(menu, new TogglePauseResume())).toBe(menu);
+    expect(reduceState(menu, new Restart(4)).phase).toBe("countdown");
+  });
+});
+
+describe("garbage", () => {
+  it("starts a Cheese Race with its garbage on the board", () => {
+    const game = createGame({ mode: "cheese" }, 5);
+    expect(game.grid.slice(11).every(row => row.filter(cell => cell?.kind === "garbage").length === 9)).toBe(true);
+    expect(game.grid.slice(0, 11).flat().every(cell => cell === null)).toBe(true);
+  });
+  it("raises queued garbage when a piece locks without clearing", () => {
+    const queued = new QueueGarbage(2).apply(createGame({}, 5));
+    const locked = new instantDROP().apply(queued);
+    expect(locked.grid.slice(18).every(row => row.filter(cell => cell?.kind === "garbage").length === 9)).toBe(true);
+    expect(locked.garbage.pending).toEqual([]);
+  });
+  it("lifts the falling piece with timed garbage in Survival", () => {
+    const game = createGame({ mode: "survival", gravity: [0] }, 5);
+    const risen = new Tick(5000).apply(game);
+    expect(risen.currentTetrimino.y).toBe(game.currentTetrimino.y - 1);
+    expect(risen.grid[19].filter(cell => cell?.kind === "garbage")).toHaveLength(9);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from "vitest";
+import { decodeFumen, encodeFumen } from "../src/fumen";
+
+// Four rows with the six columns on the left filled with garbage, as written by fumen
+const FOUR_ROWS = "v115@9gF8DeF8DeF8DeF8NeAgH";
+
+describe("decodeFumen", () => {
+  it("reads the first page's field, sitting it on the floor", () => {
+    expect(decodeFumen("v115@vhAAgH")).toEqual({ rows: [], queue: [], hold: null });
+    expect(decodeFumen(FOUR_ROWS)).toEqual({ rows: Array(4).fill("XXXXXX...."), queue: [], hold: null });
+  });
+  it("rejects text that is not a v115 fumen", () => {
+    expect(decodeFumen("v110@vhAAgH")).toBeNull();
+    expect(decodeFumen("v115@vh")).toBeNull();
+    expect(decodeFumen("v115@!!AAgH")).toBeNull();
+  });
+});
+
+describe("encodeFumen", () => {
+  it("writes a board the way fumen does", () => {
+    expect(encodeFumen({ rows: [], queue: [], hold: null })).toBe("v115@vhAAgH");
+    expect(encodeFumen({ rows: Array(4).fill("XXXXXX...."), queue: [], hold: null })).toBe(FOUR_ROWS);
+  });
+  it("keeps the pieces in a quiz comment through a round trip", () => {
+    const setup = { rows: ["TTT.......", "ZZ.SS..IOO", "LJJJSXXXOO"], queue: ["T", "I", "L"], hold: "O" };
+    const fumen = encodeFumen(setup)!;
+    expect(fumen.startsWith("v115@")).toBe(true);
+    expect(decodeFumen(fumen)).toEqual(setup);
+    expect(decodeFumen(`https://fumen.zui.jp/?${fumen}`)).toEqual(setup);
+  });
+  it("refuses boards fumen cannot show", () => {
+    expect(encodeFumen({ rows: ["XXXX"], queue: [], hold: null })).toBeNull();
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from "vitest";
+import { advanceGarbageTimer, drawGarbage, garbageRefill, garbageRow, initialGarbage, raiseGrid } from "../src/garbage";
+
+const rule = { rows: 9, total: 18, interval: 1000, speedUp: 0.5, minInterval: 300 };
+
+describe("drawGarbage", () => {
+  it("gives a batch one hole, and messy garbage a new hole on every row", () => {
+    const holes = (rows: ReturnType<typeof drawGarbage>["rows"]) => rows.map(row => row.indexOf(null));
+    const tidy = drawGarbage(initialGarbage(1, rule), 4, 10, false);
+    expect(new Set(holes(tidy.rows)).size).toBe(1);
+    expect(tidy.garbage.dealt).toBe(4);
+
+    const messy = holes(drawGarbage(initialGarbage(1, rule), 8, 10, true).rows);
+    messy.slice(1).forEach((hole, i) => expect(hole).not.toBe(messy[i]));
+  });
+  it("is reproducible from the seed", () => {
+    expect(drawGarbage(initialGarbage(5, rule), 6, 10, true)).toEqual(drawGarbage(initialGarbage(5, rule), 6, 10, true));
+  });
+});
+
+describe("raiseGrid", () => {
+  it("pushes rows in from the bottom and reports cells pushed off the top", () => {
+    const grid = [[null, null], [{ kind: "T" as const, special: null }, null]];
+    const raised = raiseGrid(grid, [garbageRow(2, 0)]);
+    expect(raised.grid).toEqual([grid[1], garbageRow(2, 0)]);
+    expect(raised.overflow).toBe(false);
+    expect(raiseGrid(raised.grid, [garbageRow(2, 1)]).overflow).toBe(true);
+  });
+});
+
+describe("advanceGarbageTimer", () => {
+  it("raises a row when the timer runs out, then speeds up to the minimum", () => {
+    const waiting = advanceGarbageTimer(initialGarbage(1, rule), rule, 900);
+    expect(waiting.due).toBe(0);
+    const due = advanceGarbageTimer(waiting.garbage, rule, 100);
+    expect(due).toMatchObject({ due: 1, garbage: { timer: 500, interval: 500 } });
+    expect(advanceGarbageTimer(due.garbage, rule, 500).garbage.interval).toBe(300);
+  });
+});
+
+describe("garbageRefill", () => {
+  it("tops the board back up until the total has been dealt", () => {
+    expect(garbageRefill(initialGarbage(1, rule), rule, 0)).toBe(9);
+    expect(garbageRefill({ ...initialGarbage(1, rule), dealt: 16 }, rule, 5)).toBe(2);
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { createGenerator, GeneratorName, nextPiece } from "../src/generators";
+import { PieceKind, PIECE_KINDS } from "../src/types";
+
+/**
+ * Deals a number of pieces from a fresh generator.
+ */
+const deal = (name: GeneratorName, seed: number, count: number): PieceKind[] =>
+  Array.from({ length: count }).reduce<{ g: ReturnType<typeof createGenerator>, seed: number, pieces: PieceKind[] }>(
+    (acc) => {
+      const { piece, generator, seed } = nextPiece(acc.g, acc.seed, PIECE_KINDS);
+      return { g: generator, seed, pieces: [...acc.pieces, piece] };
+    },
+    { g: createGenerator(name), seed, pieces: [] }
+  ).pieces;
+
+describe("sevenBag", () => {
+  it("deals every piece exactly once per bag", () => {
+    const pieces = deal("sevenBag", 1, 21);
+    [0, 7, 14].forEach(start =>
+      expect([...pieces.slice(start, start + 7)].sort()).toEqual([...PIECE_KINDS].sort())
+    );
+  });
+});
+
+describe("history4", () => {
+  it("never starts with S, Z or O", () => {
+    Array.from({ length: 50 }, (_, seed) => deal("history4", seed, 1)[0])
+      .forEach(first => expect(["S", "Z", "O"]).not.toContain(first));
+  });
+});
+
+describe("nextPiece", () => {
+  it("is deterministic for every generator", () => {
+    (["sevenBag", "uniform", "history4"] as const).forEach(name =>
+      expect(deal(name, 77, 30)).toEqual(deal(name, 77, 30))
+    );
+  });
+});
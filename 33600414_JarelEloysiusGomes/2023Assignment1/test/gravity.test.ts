@@ -0,0 +1,27 @@
+import { describe, expect, it } from "vitest";
+import { gravityForLevel, levelForLines, MAX_GRAVITY } from "../src/gravity";
+
+describe("gravityForLevel", () => {
+  it("falls less than a row per frame at level 1 and speeds up with the level", () => {
+    expect(gravityForLevel("guideline", 1)).toBeCloseTo(1 / 60);
+    expect(gravityForLevel("guideline", 10)).toBeGreaterThan(gravityForLevel("guideline", 5));
+  });
+  it("reaches 20G at the top levels", () => {
+    expect(gravityForLevel("guideline", 20)).toBe(MAX_GRAVITY);
+  });
+  it("follows the NES frame table", () => {
+    expect(gravityForLevel("nes", 1)).toBeCloseTo(1 / 48);
+    expect(gravityForLevel("nes", 99)).toBe(1);
+  });
+  it("keeps the last entry of a custom table for higher levels", () => {
+    expect(gravityForLevel([0.1, 0.5, 40], 2)).toBe(0.5);
+    expect(gravityForLevel([0.1, 0.5, 40], 7)).toBe(MAX_GRAVITY);
+  });
+});
+
+describe("levelForLines", () => {
+  it("goes up a level every ten lines", () => {
+    expect(levelForLines(1, 9, 10)).toBe(1);
+    expect(levelForLines(1, 25, 10)).toBe(3);
+  });
+});
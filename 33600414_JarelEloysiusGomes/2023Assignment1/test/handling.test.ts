@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { advanceInput, initialInput, pressSide, releaseSide } from "../src/handling";
+
+const handling = { das: 100, arr: 20, sdf: 20 };
+
+describe("advanceInput", () => {
+  it("waits for DAS to charge, then repeats every ARR", () => {
+    const held = pressSide(initialInput, "left");
+    const charging = advanceInput(held, handling, 99);
+    expect(charging.shifts).toBe(0);
+    const charged = advanceInput(charging.input, handling, 1);
+    expect(charged.shifts).toBe(1);
+    expect(advanceInput(charged.input, handling, 45).shifts).toBe(2);
+  });
+  it("shifts straight to the wall with an ARR of 0", () => {
+    const held = pressSide(initialInput, "right");
+    expect(advanceInput(held, { ...handling, arr: 0 }, 100).shifts).toBe(Infinity);
+  });
+  it("does nothing while no side key is held", () => {
+    expect(advanceInput(initialInput, handling, 1000)).toEqual({ input: initialInput, shifts: 0 });
+  });
+});
+
+describe("releaseSide", () => {
+  it("hands the direction back to the other held key, recharging DAS", () => {
+    const both = advanceInput(pressSide(pressSide(initialInput, "left"), "right"), handling, 500).input;
+    expect(both.direction).toBe("right");
+    const released = releaseSide(both, "right");
+    expect(released.direction).toBe("left");
+    expect(released.heldFor).toBe(0);
+  });
+});
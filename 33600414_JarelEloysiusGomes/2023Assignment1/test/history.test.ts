@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { createGame, instantDROP, Redo, step, Tick, Undo } from "../src/engine";
+import { gravityForLevel } from "../src/gravity";
+import { historyPosition, historyStates, jumpHistory, recordHistory, redoHistory, startHistory, undoHistory } from "../src/history";
+
+describe("history", () => {
+  it("keeps only the most recent states, and forgets the future on a new one", () => {
+    const history = [1, 2, 3, 4].reduce((acc, n) => recordHistory(acc, n, 2), startHistory(0));
+    expect(historyStates(history)).toEqual([2, 3, 4]);
+
+    const undone = undoHistory(undoHistory(history)!)!;
+    expect(undone.present).toBe(2);
+    expect(undoHistory(undone)).toBeNull();
+    expect(redoHistory(undone)!.present).toBe(3);
+    expect(historyStates(recordHistory(undone, 5, 2))).toEqual([2, 5]);
+  });
+
+  it("jumps to any state on the timeline", () => {
+    const history = [1, 2, 3].reduce((acc, n) => recordHistory(acc, n, 10), startHistory(0));
+    const jumped = jumpHistory(history, 1)!;
+    expect(jumped.present).toBe(1);
+    expect(historyPosition(jumped)).toBe(1);
+    expect(historyStates(jumped)).toEqual([0, 1, 2, 3]);
+    expect(jumpHistory(history, 4)).toBeNull();
+  });
+});
+
+describe("practice", () => {
+  it("undoes and redoes placements, with the clock still running", () => {
+    const s = createGame({ mode: "practice" }, 3);
+    const placed = [1, 2].reduce(acc => new instantDROP().apply(acc), s);
+    expect(historyPosition(placed.history!)).toBe(2);
+
+    const undone = new Undo().apply(new Undo().apply({ ...placed, frame: 40 }));
+    expect(undone.grid).toEqual(s.grid);
+    expect(undone.currentTetrimino).toEqual(s.currentTetrimino);
+    expect(undone.frame).toBe(40);
+
+    const redone = new Redo().apply(undone);
+    expect(redone.grid).toEqual(new instantDROP().apply(s).grid);
+    // Placing a piece after undoing leaves nothing to redo
+    expect(new Redo().apply(new instantDROP().apply(undone)).history!.future).toEqual([]);
+    // Modes without a history have nothing to undo
+    const marathon = createGame({}, 3);
+    expect(new Undo().apply(marathon)).toBe(marathon);
+  });
+
+  it("replays undo and redo commands", () => {
+    const s = createGame({ mode: "practice" }, 3);
+    const replayed = [
+      { command: "hardDrop", pressed: true }, { command: "undo", pressed: true }, { command: "redo", pressed: true },
+    ] as const;
+    const end = replayed.reduce((acc, change) => step(acc, change, 0), s);
+    expect(end.grid).toEqual(new instantDROP().apply(s).grid);
+  });
+
+  it("leaves the piece where it is without gravity, unless soft dropped", () => {
+    expect(gravityForLevel("off", 10)).toBe(0);
+    const s = createGame({ mode: "practice", gravity: "off" }, 3);
+    expect(new Tick(1000).apply(s).currentTetrimino.y).toBe(s.currentTetrimino.y);
+    const softDropping = { ...s, input: { ...s.input, softDrop: true } };
+    expect(new Tick(100).apply(softDropping).currentTetrimino.y).toBeGreaterThan(s.currentTetrimino.y);
+  });
+});
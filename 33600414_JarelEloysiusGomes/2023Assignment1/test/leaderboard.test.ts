@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import { addEntry, bestEntry, isRecord, LEADERBOARD_SIZE, leaderboardFor, LeaderboardEntry, loadLeaderboards, saveLeaderboards } from "../src/leaderboard";
+
+/**
+ * An in-memory stand-in for localStorage.
+ */
+const memoryStorage = () => {
+  const items = new Map<string, string>();
+  return {
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => void items.set(key, value),
+  };
+};
+
+const entry = (name: string, score: number): LeaderboardEntry =>
+  ({ name, score, lines: 10, level: 2, duration: 60000, date: "2023-09-01T00:00:00.000Z" });
+
+describe("leaderboards", () => {
+  it("keeps the best games of each mode, earlier games first on ties", () => {
+    const boards = [entry("A", 100), entry("B", 300), entry("C", 100)]
+      .reduce((acc, game) => addEntry(acc, "marathon", game), {});
+    expect(leaderboardFor(boards, "marathon").map(game => game.name)).toEqual(["B", "A", "C"]);
+    expect(leaderboardFor(boards, "sprint")).toEqual([]);
+    expect(bestEntry(boards, "marathon")?.score).toBe(300);
+  });
+  it("only keeps the top ten", () => {
+    const boards = Array.from({ length: 12 }, (_, i) => entry(`P${i}`, (i + 1) * 10))
+      .reduce((acc, game) => addEntry(acc, "marathon", game), {});
+    expect(leaderboardFor(boards, "marathon")).toHaveLength(LEADERBOARD_SIZE);
+    expect(isRecord(boards, "marathon", { score: 30, duration: 1 })).toBe(false);
+    expect(isRecord(boards, "marathon", { score: 31, duration: 1 })).toBe(true);
+    expect(isRecord({}, "marathon", { score: 0, duration: 1 })).toBe(false);
+  });
+  it("ranks timed modes by fastest time", () => {
+    const boards = [{ ...entry("Slow", 0), duration: 90000 }, { ...entry("Fast", 0), duration: 45000 }]
+      .reduce((acc, game) => addEntry(acc, "sprint", game, "time"), {});
+    expect(leaderboardFor(boards, "sprint").map(game => game.name)).toEqual(["Fast", "Slow"]);
+    expect(isRecord(boards, "sprint", { score: 0, duration: 60000 }, "time")).toBe(true);
+  });
+  it("persists through storage, skipping entries that are not games", () => {
+    const storage = memoryStorage();
+    const boards = addEntry({}, "marathon", entry("A", 100));
+    saveLeaderboards(storage, boards);
+    expect(loadLeaderboards(storage)).toEqual(boards);
+
+    storage.setItem("tetris.leaderboards", JSON.stringify({ marathon: [{ name: "X" }, entry("A", 100)], zen: "nope" }));
+    expect(loadLeaderboards(storage)).toEqual(boards);
+  });
+});
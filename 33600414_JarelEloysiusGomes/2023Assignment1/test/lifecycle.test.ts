@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { canTransition, countdownSeconds } from "../src/lifecycle";
+
+describe("canTransition", () => {
+  it("follows menu, countdown, playing, paused and game over", () => {
+    expect(canTransition("menu", "countdown")).toBe(true);
+    expect(canTransition("countdown", "playing")).toBe(true);
+    expect(canTransition("playing", "paused")).toBe(true);
+    expect(canTransition("paused", "playing")).toBe(true);
+    expect(canTransition("playing", "gameOver")).toBe(true);
+  });
+  it("does not skip the countdown or resume a finished game", () => {
+    expect(canTransition("menu", "playing")).toBe(false);
+    expect(canTransition("gameOver", "playing")).toBe(false);
+    expect(canTransition("paused", "gameOver")).toBe(false);
+  });
+});
+
+describe("countdownSeconds", () => {
+  it("counts 3, 2, 1", () => {
+    expect([3000, 2001, 2000, 1, 0].map(countdownSeconds)).toEqual([3, 3, 2, 1, 1]);
+  });
+});
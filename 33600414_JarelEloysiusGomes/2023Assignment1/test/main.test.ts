@@ -1,5 +1,5 @@
 import { assert, describe, expect, it } from "vitest";
-import { main } from "../src/main";
+import { main, normaliseTetrimino } from "../src/main";
 
 describe("main", () => {
   it("is defined", () => {
@@ -9,3 +9,10 @@ describe("main", () => {
     assert.isFunction(main);
   });
 });
+
+describe("normaliseTetrimino", () => {
+  it("moves the top-left corner to the origin", () => {
+    const moved = normaliseTetrimino({ kind: "I", rotation: 1, x: 4, y: 7, special: null });
+    expect(moved).toEqual([0, 1, 2, 3].map(y => ({ x: 0, y, color: "cyan" })));
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, expect, it } from "vitest";
+import { createBot } from "../src/ai";
+import { Constants, createGame, instantDROP, State, Tick } from "../src/engine";
+import { createMatch, EndDemo, EveryPlayer, isBot, Match, PlayerAction, StartMatch, TickMatch } from "../src/match";
+import { defaultConfig } from "../src/types";
+
+// A board with a four-row well in the left column, a block left over above it, and an I piece standing over the well
+const tetrisReady = (): State => ({
+  ...createGame({ mode: "versus" }, 1),
+  grid: Array.from({ length: 20 }, (_, y) =>
+    Array.from({ length: 10 }, (_, x) => (y >= 16 && x > 0) || (y === 15 && x === 9) ? { kind: "garbage" as const, special: null } : null)),
+  currentTetrimino: { kind: "I", rotation: 1, x: -2, y: 0, special: null },
+});
+
+describe("StartMatch", () => {
+  it("starts two boards with their own seeds in versus, and one otherwise", () => {
+    const match = new StartMatch(7, { ...defaultConfig, mode: "versus" }).apply(createMatch([createGame()]));
+    expect(match.players).toHaveLength(2);
+    expect(match.players[0].seed).not.toBe(match.players[1].seed);
+    expect(new StartMatch(7, defaultConfig).apply(match).players).toHaveLength(1);
+  });
+});
+
+describe("PlayerAction", () => {
+  it("queues the garbage a clear sends on the opponent's board", () => {
+    const match = createMatch([tetrisReady(), createGame({ mode: "versus" }, 2)]);
+    const sent = new PlayerAction(0, new instantDROP()).apply(match);
+    expect(sent.players[0].lines).toBe(4);
+    expect(sent.players[1].garbage.pending).toEqual([4]);
+  });
+  it("lets incoming garbage be cancelled before it is sent back", () => {
+    const defending = { ...tetrisReady(), garbage: { ...tetrisReady().garbage, pending: [3] } };
+    const match = createMatch([defending, createGame({ mode: "versus" }, 2)]);
+    const sent = new PlayerAction(0, new instantDROP()).apply(match);
+    expect(sent.players[0].garbage.pending).toEqual([]);
+    expect(sent.players[1].garbage.pending).toEqual([1]);
+  });
+});
+
+describe("match result", () => {
+  it("goes to the other player when a board tops out, stopping the winner's game", () => {
+    const toppedOut: State = { ...createGame({ mode: "versus" }, 1), phase: "gameOver" };
+    const match = createMatch([createGame({ mode: "versus" }, 2), toppedOut]);
+    const decided = new EveryPlayer(new Tick(1000 / 60)).apply(match);
+    expect(decided.result).toEqual({ winner: 0 });
+    expect(decided.players[0]).toMatchObject({ phase: "gameOver", won: true });
+  });
+});
+
+describe("TickMatch", () => {
+  it("lets the AI play its board through the same actions as a person", () => {
+    const match = createMatch([createGame({}, 1)], [createBot("hard")]);
+    const played = Array.from({ length: 100 }).reduce<Match>(m => new TickMatch(Constants.FRAME_MS).apply(m), match);
+    expect(played.players[0].grid.some(row => row.some(cell => cell !== null))).toBe(true);
+  });
+  it("leaves a board a person plays alone", () => {
+    const match = createMatch([createGame({}, 1)]);
+    const ticked = new TickMatch(Constants.FRAME_MS).apply(match);
+    expect(ticked.players[0].currentTetrimino.x).toBe(match.players[0].currentTetrimino.x);
+  });
+});
+
+describe("EndDemo", () => {
+  it("sends a demo back to the menu and leaves people's games alone", () => {
+    const demo = createMatch([createGame({}, 1)], [createBot("hard")]);
+    const ended = new EndDemo().apply(demo);
+    expect(ended.players[0].phase).toBe("menu");
+    expect(isBot(ended, 0)).toBe(false);
+    const game = createMatch([createGame({}, 1)]);
+    expect(new EndDemo().apply(game)).toBe(game);
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { createGame } from "../src/engine";
+import { BUILT_IN_PIECE_SETS, parsePieceSet, pieceDefinition, piecePool, pieceSetFor } from "../src/pieceSets";
+import { pieceCells, tetriminoCells } from "../src/pieces";
+
+// A small set in the JSON format, with a single spawn state to be turned
+const DOMINOES = {
+  name: "Dominoes",
+  pieces: [
+    { name: "D", cells: [[[0, 0], [1, 0]]], color: "red" },
+    { name: "E", cells: [[[0, 0], [1, 0]]], color: "blue", weight: 3 },
+  ],
+};
+
+const withPieces = (pieces: unknown[]) => JSON.stringify({ ...DOMINOES, pieces });
+
+describe("parsePieceSet", () => {
+  it("builds every rotation state from the spawn state", () => {
+    const pieces = parsePieceSet(JSON.stringify(DOMINOES))!;
+    expect(pieces.name).toBe("Dominoes");
+    expect(pieceCells("D", 0, pieces)).toEqual([{ x: 0, y: 0 }, { x: 1, y: 0 }]);
+    expect(pieceCells("D", 1, pieces)).toEqual([{ x: 1, y: 0 }, { x: 1, y: 1 }]);
+    expect(pieceDefinition(pieces, "D").size).toBe(2);
+    expect(() => pieceDefinition(pieces, "T")).toThrow();
+  });
+  it("rejects files that are not piece sets", () => {
+    expect(parsePieceSet("not json")).toBeNull();
+    expect(parsePieceSet(JSON.stringify({ name: "Empty", pieces: [] }))).toBeNull();
+    // A name used twice, cells outside the bounding box, and nothing that can be dealt
+    expect(parsePieceSet(withPieces([DOMINOES.pieces[0], DOMINOES.pieces[0]]))).toBeNull();
+    expect(parsePieceSet(withPieces([{ name: "D", cells: [[[0, 0], [2, 0]]], color: "red", size: 2 }]))).toBeNull();
+    expect(parsePieceSet(withPieces([{ ...DOMINOES.pieces[0], weight: 0 }]))).toBeNull();
+  });
+});
+
+describe("piecePool", () => {
+  it("deals each piece as many times as its weight", () => {
+    expect(piecePool(parsePieceSet(JSON.stringify(DOMINOES))!)).toEqual(["D", "E", "E", "E"]);
+  });
+});
+
+describe("built-in piece sets", () => {
+  it("has the 18 one-sided pentominoes", () => {
+    const pentominoes = pieceSetFor("pentomino");
+    expect(pentominoes.pieces).toHaveLength(18);
+    expect(pentominoes.pieces.every(piece => piece.rotations.every(cells => cells.length === 5))).toBe(true);
+  });
+  it("deals a game from the set in its settings", () => {
+    const s = createGame({ pieces: "pentomino" }, 1);
+    const kinds = BUILT_IN_PIECE_SETS.pentomino.pieces.map(piece => piece.name);
+    expect([s.currentTetrimino, ...s.queue].every(t => kinds.includes(t.kind))).toBe(true);
+    expect(tetriminoCells(s.currentTetrimino, pieceSetFor("pentomino"))).toHaveLength(5);
+  });
+  it("widens a board too narrow for the set's widest piece, and leaves out puzzle pieces the set lacks", () => {
+    expect(createGame({ pieces: "pentomino", boardWidth: 4 }, 1).config.boardWidth).toBe(5);
+    expect(createGame({ pieces: "standard", boardWidth: 4 }, 1).config.boardWidth).toBe(4);
+    const puzzle = createGame({ mode: "puzzle", pieces: "beginner" }, 1);
+    expect(pieceSetFor("beginner").pieces.map(piece => piece.kind)).toContain(puzzle.currentTetrimino.kind);
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { pieceCells, rotateTetrimino, spawnTetrimino, tetriminoCells } from "../src/pieces";
+import { Point, Tetrimino } from "../src/types";
+
+/**
+ * Sorts cells so that sets of cells can be compared.
+ */
+const sorted = (cells: Point[]) => [...cells].sort((a, b) => a.y - b.y || a.x - b.x);
+
+/**
+ * Checks whether a Tetrimino stays inside a board of the given size
+ * and off the given filled cells.
+ */
+const fitsIn = (width: number, height: number, filled: Point[] = []) => (t: Tetrimino) =>
+  tetriminoCells(t).every(({ x, y }) =>
+    x >= 0 && x < width && y >= 0 && y < height && !filled.some(cell => cell.x === x && cell.y === y)
+  );
+
+describe("pieceCells", () => {
+  it("keeps the O piece in place when rotating", () => {
+    [1, 2, 3].forEach(rotation =>
+      expect(sorted(pieceCells("O", rotation as 1 | 2 | 3))).toEqual(sorted(pieceCells("O", 0)))
+    );
+  });
+  it("rotates the T piece around its centre", () => {
+    expect(sorted(pieceCells("T", 1))).toEqual(sorted([{ x: 1, y: 0 }, { x: 1, y: 1 }, { x: 2, y: 1 }, { x: 1, y: 2 }]));
+  });
+  it("returns to the spawn orientation after four turns", () => {
+    const t = { ...spawnTetrimino("I", null, 10), y: 5 };
+    const turned = [1, 1, 1, 1].reduce<Tetrimino>((acc) => rotateTetrimino(acc, 1, fitsIn(10, 20))!.tetrimino, t);
+    expect(turned).toEqual(t);
+  });
+});
+
+describe("spawnTetrimino", () => {
+  it("centres pieces at the top of the board", () => {
+    expect(sorted(tetriminoCells(spawnTetrimino("I", null, 10)))).toEqual([3, 4, 5, 6].map(x => ({ x, y: 0 })));
+    expect(sorted(tetriminoCells(spawnTetrimino("O", null, 10)))).toEqual(sorted([
+      { x: 4, y: 0 }, { x: 5, y: 0 }, { x: 4, y: 1 }, { x: 5, y: 1 },
+    ]));
+  });
+});
+
+describe("rotateTetrimino", () => {
+  it("kicks off the wall instead of failing", () => {
+    // A vertical I piece flush against the left wall
+    const t: Tetrimino = { kind: "I", rotation: 3, x: -1, y: 5, special: null };
+    const rotated = rotateTetrimino(t, 1, fitsIn(10, 20));
+    expect(rotated).not.toBeNull();
+    expect(rotated!.tetrimino.rotation).toBe(0);
+    expect(rotated!.kick).toBeGreaterThan(0);
+    expect(tetriminoCells(rotated!.tetrimino).every(({ x }) => x >= 0)).toBe(true);
+  });
+  it("fails when no kick fits", () => {
+    const t: Tetrimino = { kind: "I", rotation: 0, x: 0, y: 0, special: null };
+    expect(rotateTetrimino(t, 1, fitsIn(4, 2))).toBeNull();
+  });
+  it("rotates counter-clockwise and by 180 degrees", () => {
+    const t = { ...spawnTetrimino("T", null, 10), y: 5 };
+    expect(rotateTetrimino(t, 3, fitsIn(10, 20))!.tetrimino.rotation).toBe(3);
+    expect(rotateTetrimino(t, 2, fitsIn(10, 20))!.tetrimino.rotation).toBe(2);
+  });
+});
@@ -0,0 +1,115 @@
+import { describe, expect, it } from "vitest";
+import { gridFromRows, parseBoard, rowsFromGrid, serialiseBoard } from "../src/boardText";
+import { createGame, instantDROP, reduceState, Rewind, Rotate, State, step, Undo } from "../src/engine";
+import { defaultPuzzle, parsePuzzle, Puzzle, serialisePuzzle } from "../src/puzzle";
+import { PIECE_KINDS } from "../src/types";
+
+// A game of the puzzle mode
+const puzzleGame = (puzzle: Puzzle = defaultPuzzle): State => createGame({ mode: "puzzle", puzzle }, 1);
+
+describe("board text", () => {
+  it("writes a board as rows sitting on the floor, and reads it back", () => {
+    const grid = gridFromRows(["..XX.IIII."], 10, 3, PIECE_KINDS)!;
+    expect(grid[2][2]).toEqual({ kind: "garbage", special: null });
+    expect(grid[2][5]).toEqual({ kind: "I", special: null });
+    expect(rowsFromGrid(grid)).toEqual(["..XX.IIII."]);
+
+    const text = serialiseBoard({ rows: ["..XX.IIII."], queue: ["T", "O"], hold: "L" });
+    expect(text).toBe("..XX.IIII.\nqueue: TO\nhold: L");
+    expect(parseBoard(text, PIECE_KINDS)).toEqual({ rows: ["..XX.IIII."], queue: ["T", "O"], hold: "L" });
+  });
+  it("rejects rows of different widths and unknown pieces", () => {
+    expect(parseBoard("XX..\nXXX", PIECE_KINDS)).toBeNull();
+    expect(parseBoard("XX.Q", PIECE_KINDS)).toBeNull();
+    expect(parseBoard("XX..\nqueue: TQ", PIECE_KINDS)).toBeNull();
+  });
+});
+
+describe("parsePuzzle", () => {
+  it("reads puzzles from board text and fumens", () => {
+    expect(parsePuzzle(serialisePuzzle(defaultPuzzle), PIECE_KINDS)).toEqual(defaultPuzzle);
+    expect(parsePuzzle("v115@vhAAgH", PIECE_KINDS)).toBeNull();
+    expect(parsePuzzle("XXXX......\nqueue: IO", PIECE_KINDS, "perfectClear")?.goal).toBe("perfectClear");
+  });
+});
+
+describe("puzzle mode", () => {
+  // Slide the T under the overhang and spin it into the slot
+  const spinIn = (s: State) =>
+    new instantDROP().apply(new Rotate(3).apply(step({ ...s, currentTetrimino: { ...s.currentTetrimino, x: 0, y: 15 } }, { command: "moveRight", pressed: true }, 0)));
+
+  it("starts from the puzzle's board and pieces", () => {
+    const s = puzzleGame();
+    expect(rowsFromGrid(s.grid)).toEqual(defaultPuzzle.rows);
+    expect(s.currentTetrimino.kind).toBe("T");
+    expect(s.queue).toEqual([]);
+  });
+  it("sizes the board to fit the puzzle, and keeps cells of pieces outside the set", () => {
+    const rows = ["JJJJ......", "XXXXXXXX..", "XXXXXXXX..", "XXXXXXXX..", "XXXXXXXX..", "XXXXXXXX.."];
+    const puzzle: Puzzle = { rows, queue: ["T"], hold: null, goal: "clearAll" };
+    const small = createGame({ mode: "puzzle", puzzle, boardWidth: 6, boardHeight: 4, bufferHeight: 0 }, 1);
+    expect(small.config.boardWidth).toBe(10);
+    expect(rowsFromGrid(small.grid)).toEqual(rows);
+
+    const pentomino = createGame({ mode: "puzzle", puzzle, pieces: "pentomino" }, 1);
+    expect(rowsFromGrid(pentomino.grid)).toEqual(["XXXX......", ...rows.slice(1)]);
+    expect(new instantDROP().apply(small).won).toBe(false);
+  });
+  it("is solved by reaching the goal", () => {
+    const solved = spinIn(puzzleGame());
+    expect(solved.lastClear?.label).toContain("T-SPIN TRIPLE");
+    expect(solved.phase).toBe("gameOver");
+    expect(solved.won).toBe(true);
+  });
+  it("is only cleared once no cells are left, whatever the board is written with", () => {
+    const lettered = puzzleGame({ rows: ["IIIIIIIII.", "JJJJJJJJJ."], queue: ["O", "T"], hold: null, goal: "clearAll" });
+    const dropped = new instantDROP().apply(lettered);
+    expect(dropped.phase).toBe("playing");
+    expect(dropped.won).toBe(false);
+
+    const tapRight = (s: State) => [true, false].reduce((acc, pressed) => step(acc, { command: "moveRight", pressed }, 0), s);
+    const open = puzzleGame({ rows: ["LLLLLL...."], queue: ["I"], hold: null, goal: "clearAll" });
+    const cleared = new instantDROP().apply([1, 2, 3].reduce(tapRight, open));
+    expect(cleared.phase).toBe("gameOver");
+    expect(cleared.won).toBe(true);
+  });
+  it("is failed once the pieces run out", () => {
+    const failed = new instantDROP().apply(puzzleGame());
+    expect(failed.phase).toBe("gameOver");
+    expect(failed.won).toBe(false);
+  });
+  it("plays the held piece last", () => {
+    const s = puzzleGame({ ...defaultPuzzle, hold: "I" });
+    const dropped = new instantDROP().apply(s);
+    expect(dropped.phase).toBe("playing");
+    expect(dropped.currentTetrimino.kind).toBe("I");
+    expect(dropped.heldTetrimino).toBeNull();
+  });
+  it("undoes back to the start of the puzzle", () => {
+    const s = puzzleGame({ ...defaultPuzzle, queue: ["O", "T"] });
+    const dropped = new instantDROP().apply(s);
+    const undone = new Undo().apply({ ...dropped, frame: 30 });
+    expect(undone.grid).toEqual(s.grid);
+    expect(undone.currentTetrimino).toEqual(s.currentTetrimino);
+    expect(undone.frame).toBe(30);
+    // Outside of puzzles there is nothing to undo
+    const marathon = createGame({}, 1);
+    expect(new Undo().apply(marathon)).toBe(marathon);
+  });
+  it("undoes a failed puzzle back to its start, and plays on", () => {
+    const s = puzzleGame();
+    const failed = new instantDROP().apply(s);
+    expect(failed.phase).toBe("gameOver");
+
+    const undone = step(failed, { command: "undo", pressed: true }, 0);
+    expect(undone.phase).toBe("playing");
+    expect(undone.grid).toEqual(s.grid);
+    expect(undone.currentTetrimino).toEqual(s.currentTetrimino);
+    // Redoing the placement fails the puzzle again, and rewinding goes back to the start
+    const redone = step(undone, { command: "redo", pressed: true }, 0);
+    expect(redone.phase).toBe("gameOver");
+    const rewound = reduceState(redone, new Rewind());
+    expect(rewound.phase).toBe("playing");
+    expect(rewound.grid).toEqual(s.grid);
+  });
+});
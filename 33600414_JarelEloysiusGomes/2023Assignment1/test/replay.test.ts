@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { advanceReplay, entriesByFrame, openReplay, parseReplay, recordCommand, serialiseReplay, startRecording } from "../src/replay";
+import { defaultConfig } from "../src/types";
+
+const recording = recordCommand(recordCommand(startRecording(7, defaultConfig), 3, "moveLeft", true), 3, "hardDrop", true);
+
+describe("replay files", () => {
+  it("round-trip through JSON", () => {
+    expect(parseReplay(serialiseReplay(recording))).toEqual(recording);
+  });
+  it("reject files that are not replays", () => {
+    expect(parseReplay("{}")).toBeNull();
+    expect(parseReplay("not json")).toBeNull();
+    expect(parseReplay(JSON.stringify({ ...recording, entries: [[1, "fly", 1]] }))).toBeNull();
+  });
+  it("reject settings the game cannot play with, and keep defaults for missing ones", () => {
+    const withConfig = (config: object) => JSON.stringify({ ...recording, config });
+    expect(parseReplay(withConfig({ mode: "bogus" }))).toBeNull();
+    expect(parseReplay(withConfig({ generator: "fair" }))).toBeNull();
+    expect(parseReplay(withConfig({ pieces: { name: "Bad", pieces: [] } }))).toBeNull();
+    expect(parseReplay(withConfig({ gravity: [-1] }))).toBeNull();
+    expect(parseReplay(withConfig({ boardWidth: "wide" }))).toBeNull();
+    expect(parseReplay(withConfig({ handling: { das: -5 } }))).toBeNull();
+    expect(parseReplay(withConfig({ puzzle: { goal: "win" } }))).toBeNull();
+    expect(parseReplay(JSON.stringify({ ...recording, result: { score: "lots" } }))).toBeNull();
+
+    const partial = parseReplay(withConfig({ mode: "sprint", handling: { das: 100 } }))!;
+    expect(partial.config.mode).toBe("sprint");
+    expect(partial.config.handling).toEqual({ ...defaultConfig.handling, das: 100 });
+    expect(partial.config.puzzle).toEqual(defaultConfig.puzzle);
+  });
+  it("group entries by frame in order", () => {
+    expect(entriesByFrame(recording).get(3)).toEqual([[3, "moveLeft", 1], [3, "hardDrop", 1]]);
+  });
+});
+
+describe("advanceReplay", () => {
+  it("moves by the speed and stops at the end", () => {
+    const player = { ...openReplay({ ...recording, frames: 10 }), playing: true, speed: 0.5 };
+    expect(advanceReplay(player, 3).position).toBe(1.5);
+    const ended = advanceReplay({ ...player, speed: 4 }, 3);
+    expect(ended.position).toBe(10);
+    expect(ended.playing).toBe(false);
+  });
+});
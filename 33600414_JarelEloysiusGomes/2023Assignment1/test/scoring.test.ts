@@ -0,0 +1,60 @@
+import { describe, expect, it } from "vitest";
+import { detectTSpin, initialScoring, scoreLock } from "../src/scoring";
+import { Grid, Point, Tetrimino } from "../src/types";
+
+/**
+ * Builds an empty 10x20 grid with garbage in the given cells.
+ */
+const gridWith = (filled: Point[]): Grid =>
+  Array.from({ length: 20 }, (_, y) =>
+    Array.from({ length: 10 }, (_, x) =>
+      filled.some(cell => cell.x === x && cell.y === y) ? { kind: "garbage" as const, special: null } : null
+    )
+  );
+
+describe("detectTSpin", () => {
+  const pointingDown: Tetrimino = { kind: "T", rotation: 2, x: 0, y: 17, special: null };
+
+  it("finds a full T-spin when both front corners are blocked", () => {
+    const grid = gridWith([{ x: 0, y: 17 }, { x: 0, y: 19 }, { x: 2, y: 19 }]);
+    expect(detectTSpin(pointingDown, grid, { kick: 0, turns: 1 })).toBe("full");
+  });
+  it("finds a mini T-spin when a front corner is open", () => {
+    const pointingUp: Tetrimino = { ...pointingDown, rotation: 0 };
+    const grid = gridWith([{ x: 0, y: 17 }, { x: 0, y: 19 }, { x: 2, y: 19 }]);
+    expect(detectTSpin(pointingUp, grid, { kick: 0, turns: 1 })).toBe("mini");
+    expect(detectTSpin(pointingUp, grid, { kick: 4, turns: 3 })).toBe("full");
+    // The 180 kicks are not SRS, so their fifth kick does not upgrade
+    expect(detectTSpin(pointingUp, grid, { kick: 4, turns: 2 })).toBe("mini");
+  });
+  it("ignores pieces that did not rotate into place", () => {
+    const grid = gridWith([{ x: 0, y: 17 }, { x: 0, y: 19 }, { x: 2, y: 19 }]);
+    expect(detectTSpin(pointingDown, grid, null)).toBe("none");
+  });
+});
+
+describe("scoreLock", () => {
+  it("labels and scores a T-spin double by level", () => {
+    const { event } = scoreLock(initialScoring, 2, "full", false, 3);
+    expect(event?.label).toBe("T-SPIN DOUBLE");
+    expect(event?.points).toBe(1200 * 3);
+  });
+  it("gives back-to-back tetrises 1.5 times the points", () => {
+    const first = scoreLock(initialScoring, 4, "none", false, 1);
+    const { event } = scoreLock({ ...first.scoring, combo: -1 }, 4, "none", false, 1);
+    expect(event?.backToBack).toBe(true);
+    expect(event?.points).toBe(1200);
+  });
+  it("adds combo points for consecutive clears and resets on a lock without lines", () => {
+    const first = scoreLock(initialScoring, 1, "none", false, 1);
+    const second = scoreLock(first.scoring, 1, "none", false, 1);
+    expect(second.event?.points).toBe(150);
+    expect(second.event?.label).toBe("SINGLE 1 COMBO");
+    expect(scoreLock(second.scoring, 0, "none", false, 1)).toEqual({ scoring: { combo: -1, backToBack: false }, event: null });
+  });
+  it("adds the perfect clear bonus", () => {
+    const { event } = scoreLock(initialScoring, 4, "none", true, 1);
+    expect(event?.points).toBe(800 + 2000);
+    expect(event?.label).toBe("TETRIS PERFECT CLEAR");
+  });
+});
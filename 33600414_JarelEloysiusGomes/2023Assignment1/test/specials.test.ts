@@ -0,0 +1,45 @@
+import { describe, expect, it } from "vitest";
+import { createGame, instantDROP, State } from "../src/engine";
+import { defaultSpecialChances, drawSpecial, noSpecialChances, scoreMultiplier, specialMessage } from "../src/specials";
+
+describe("drawSpecial", () => {
+  it("picks each special block with its chance, in order", () => {
+    expect(drawSpecial(0.01, defaultSpecialChances)).toBe("gold");
+    expect(drawSpecial(0.06, defaultSpecialChances)).toBe("bomb");
+    expect(drawSpecial(0.08, defaultSpecialChances)).toBe("lightning");
+    expect(drawSpecial(0.5, defaultSpecialChances)).toBeNull();
+    expect(drawSpecial(0, noSpecialChances)).toBeNull();
+  });
+});
+
+describe("scoreMultiplier", () => {
+  it("adds one for each cleared line holding gold", () => {
+    expect(scoreMultiplier([])).toBe(1);
+    expect(scoreMultiplier([{ x: 0, y: 3, special: "gold" }, { x: 1, y: 3, special: "gold" }, { x: 0, y: 4, special: "gold" }])).toBe(3);
+    expect(scoreMultiplier([{ x: 0, y: 3, special: "bomb" }])).toBe(1);
+  });
+});
+
+describe("special events", () => {
+  // An I piece made of gold, lying flat over the gap in the bottom row
+  const goldI = (): State => {
+    const game = createGame({ specialChances: noSpecialChances }, 1);
+    return {
+      ...game,
+      grid: game.grid.map((row, y) => y === 19 ? row.map((_, x) => x < 3 || x > 6 ? { kind: "garbage" as const, special: null } : null) : row),
+      currentTetrimino: { kind: "I", rotation: 0, x: 3, y: 0, special: "gold" },
+      lastSpecial: { type: "appeared", specials: ["gold"], multiplier: 1, blasted: 0 },
+    };
+  };
+
+  it("doubles the points of a clear holding gold and announces it", () => {
+    const s = goldI();
+    const dropped = new instantDROP().apply(s);
+    const plain = new instantDROP().apply({ ...s, currentTetrimino: { ...s.currentTetrimino, special: null } });
+    expect(dropped.lines).toBe(1);
+    expect(dropped.userScore - plain.userScore).toBe(dropped.lastClear!.points);
+    expect(dropped.lastSpecial).toEqual({ type: "triggered", specials: ["gold"], multiplier: 2, blasted: 0 });
+    expect(specialMessage(dropped.lastSpecial!)).toBe("GOLD x2!");
+    expect(plain.lastSpecial).toBeNull();
+  });
+});
@@ -0,0 +1,20 @@
+import { describe, expect, it } from "vitest";
+import { RNG, nextRandom } from "../src/util";
+
+describe("nextRandom", () => {
+  it("draws values in [0, 1)", () => {
+    const { value } = nextRandom(12345);
+    expect(value).toBeGreaterThanOrEqual(0);
+    expect(value).toBeLessThan(1);
+  });
+  it("is a pure function of the seed", () => {
+    expect(nextRandom(42)).toEqual(nextRandom(42));
+  });
+});
+
+describe("RNG", () => {
+  it("unscale inverts scale", () => {
+    const hash = RNG.hash(99);
+    expect(RNG.unscale(RNG.scale(hash))).toBe(hash);
+  });
+});